@@ -1,10 +1,14 @@
-import { Absence, AbsenceReport, Grade, LateAbsence, Lesson, OpenAbsence, Student, Subject, Teacher, Transaction } from './types.js'
-import { DOMObject as _DOMObject, Response } from './vendor.js'
+import { Absence, AbsenceReport, Document, DocumentDownload, Grade, LateAbsence, Lesson, OpenAbsence, Student, Subject, Teacher, Transaction } from './types.js'
+import { DOMObject as _DOMObject, RequestError, RequestOptions, Response } from './vendor.js'
 type DOMObject = _DOMObject
 
-const { cancelWait, error, DOMObject, extractQueryParameters, fatal, generateUUID, info, parseDate, request, wait, warn } = await (async () => {
+const { cancelWait, error, DOMObject, extractQueryParameters, fatal, formatDate, hmacSHA256, info, parseDate, request, wait, warn } = await (async () => {
+	// Hosts can inject a vendor, otherwise it is chosen based on the environment
+	const injected = (globalThis as { schulNetzVendor?: object }).schulNetzVendor
+	if(injected) return injected
+	
 	// eslint-disable-next-line no-constant-condition
-	return await import((() => './vendor/nodejs.js')())
+	return await import((() => typeof process !== 'undefined' && process.versions?.node ? './vendor/nodejs.js' : './vendor/browser.js')())
 })()
 
 // TODO: Error recovery especially for parsers
@@ -20,10 +24,18 @@ enum ExceptionLevel {
 	Fatal,
 }
 
+type SerializedException = {
+	type: string
+	func: string
+	message: string
+	level?: ExceptionLevel
+	[key: string]: unknown
+}
+
 class Exception {
-	protected type = 'Exception'
+	public readonly type: string = 'Exception'
 	
-	private func: string
+	public func: string
 	public message: string
 	
 	public level?: ExceptionLevel
@@ -32,45 +44,290 @@ class Exception {
 		this.func = func
 		this.message = message
 	}
+	
+	// Additional fields of subclasses, which have to be accepted by their entry in ExceptionTypes
+	protected details(): { [key: string]: unknown } {
+		return {}
+	}
+	
+	public toJSON(): SerializedException {
+		return { type: this.type, func: this.func, message: this.message, level: this.level, ...this.details() }
+	}
+	
+	public static fromJSON(json: SerializedException): Exception {
+		const exception = (ExceptionTypes[json.type] ?? ExceptionTypes['Exception'])(json)
+		exception.level = json.level
+		
+		return exception
+	}
 }
 
 class ParserException extends Exception {
-	protected type = 'ParserException'
+	public readonly type = 'ParserException'
 }
 
 class LinkerException extends Exception {
-	protected type = 'LinkerException'
+	public readonly type = 'LinkerException'
 }
 
-// TODO
-/*class NetworkException extends Exception {
-	protected type = 'NetworkException'
+class NetworkException extends Exception {
+	public readonly type = 'NetworkException'
 	
-	private url: string
+	public readonly url: string
+	public readonly status?: number
+	public readonly cause?: string
 	
-	constructor(func: string, url: string, message: string) {
+	constructor(func: string, url: string, message: string, status?: number, cause?: string) {
 		super(func, message)
 		
 		this.url = url
+		this.status = status
+		this.cause = cause
+	}
+	
+	protected details() {
+		return { url: this.url, status: this.status, cause: this.cause }
 	}
-}*/
+}
+
+// Codes of the mode parameter SchulNetz redirects to after a failed login
+enum LoginError {
+	WRONG_CREDENTIALS = 1,
+	INVALID_LOGINHASH = 2,
+	ACCOUNT_LOCKED = 3,
+	MAINTENANCE = 4,
+}
+
+type Language = 'de' | 'fr' | 'it' | 'en'
+
+const LoginErrorMessages: { [key in LoginError | 'UNKNOWN']: { [language in Language]: string } } = {
+	[LoginError.WRONG_CREDENTIALS]: {
+		de: 'Benutzername oder Passwort ist falsch.',
+		fr: 'Le nom d\'utilisateur ou le mot de passe est incorrect.',
+		it: 'Nome utente o password errati.',
+		en: 'The username or password is incorrect.',
+	},
+	[LoginError.INVALID_LOGINHASH]: {
+		de: 'Die Anmeldeseite ist abgelaufen, bitte erneut versuchen.',
+		fr: 'La page de connexion a expiré, veuillez réessayer.',
+		it: 'La pagina di accesso è scaduta, riprovare.',
+		en: 'The login page has expired, please try again.',
+	},
+	[LoginError.ACCOUNT_LOCKED]: {
+		de: 'Das Konto ist gesperrt.',
+		fr: 'Le compte est bloqué.',
+		it: 'L\'account è bloccato.',
+		en: 'The account is locked.',
+	},
+	[LoginError.MAINTENANCE]: {
+		de: 'schulNetz wird gerade gewartet.',
+		fr: 'schulNetz est en cours de maintenance.',
+		it: 'schulNetz è in manutenzione.',
+		en: 'schulNetz is currently under maintenance.',
+	},
+	UNKNOWN: {
+		de: 'Die Anmeldung ist fehlgeschlagen.',
+		fr: 'La connexion a échoué.',
+		it: 'L\'accesso non è riuscito.',
+		en: 'The login failed.',
+	},
+}
 
 class SchulNetzException extends Exception {
-	protected type = 'SchulNetzException'
+	public readonly type = 'SchulNetzException'
 	
-	private errorCode?: number
+	public readonly errorCode?: number
 	
 	constructor(func: string, message: string, errorCode?: number) {
 		super(func, message)
 		
 		this.errorCode = errorCode
 	}
+	
+	public get loginError(): LoginError | undefined {
+		return this.errorCode != undefined && this.errorCode in LoginError ? this.errorCode as LoginError : undefined
+	}
+	
+	public localizedMessage(language: Language = 'de') {
+		return LoginErrorMessages[this.loginError ?? 'UNKNOWN'][language]
+	}
+	
+	protected details() {
+		return { errorCode: this.errorCode }
+	}
+}
+
+class AnalyticsException extends Exception {
+	public readonly type = 'AnalyticsException'
 }
 
 class JavaScriptException extends Exception {
-	protected type = 'JavaScriptException'
+	public readonly type = 'JavaScriptException'
+}
+
+const ExceptionTypes: { [type: string]: (json: SerializedException) => Exception } = {
+	Exception: json => new Exception(json.func, json.message),
+	ParserException: json => new ParserException(json.func, json.message),
+	LinkerException: json => new LinkerException(json.func, json.message),
+	NetworkException: json => new NetworkException(json.func, `${json.url ?? ''}`, json.message, json.status as number | undefined, json.cause as string | undefined),
+	SchulNetzException: json => new SchulNetzException(json.func, json.message, json.errorCode as number | undefined),
+	AnalyticsException: json => new AnalyticsException(json.func, json.message),
+	JavaScriptException: json => new JavaScriptException(json.func, json.message),
+}
+
+/*********\
+| Logging |
+\*********/
+
+type LogFields = {
+	func?: string
+	session?: string
+	provider?: string
+	page?: Page | string
+	[key: string]: unknown
+}
+
+type LogEntry = LogFields & {
+	level: ExceptionLevel
+	message: string
+	timestamp: number
+}
+
+type LogSink = (entry: LogEntry) => void
+
+const REDACTED = '[REDACTED]'
+
+// Keys (in fields, query strings, form bodies and headers) whose values never reach a sink
+const RedactedKeys = [ 'passwort', 'password', 'loginhash', 'transid', 'cookie', 'cookies', 'set-cookie', 'setcookies', 'phpsessid', 'secret', 'authorization' ]
+
+function redactText(text: string) {
+	const keys = RedactedKeys.join('|')
+	
+	return text
+		// Query strings, form bodies and cookie strings (key=value)
+		.replace(new RegExp(`\\b(${keys})=([^&;\\s"',]*)`, 'gi'), `$1=${REDACTED}`)
+		// JSON and headers (key: value or "key": "value")
+		.replace(new RegExp(`("?\\b(?:${keys})"?\\s*:\\s*)("(?:[^"\\\\]|\\\\.)*"|\\[[^\\]]*\\]|[^\\s,}]+)`, 'gi'), `$1"${REDACTED}"`)
+}
+
+function redactValue(value: unknown, depth = 0): unknown {
+	if(typeof value === 'string') return redactText(value)
+	if(!value || typeof value !== 'object' || depth > 8) return value
+	if(Array.isArray(value)) return value.map(item => redactValue(item, depth + 1))
+	
+	return Object.fromEntries(Object.entries(value).map(([ key, item ]) => [ key, RedactedKeys.includes(key.toLowerCase()) ? REDACTED : redactValue(item, depth + 1) ]))
+}
+
+// Stores the latest entries in memory, e.g. to attach them to bug reports
+class RingBufferSink {
+	private buffer: LogEntry[] = []
+	
+	constructor(public capacity = 1000) {}
+	
+	public sink: LogSink = entry => {
+		this.buffer.push(entry)
+		if(this.buffer.length > this.capacity) this.buffer.splice(0, this.buffer.length - this.capacity)
+	}
+	
+	public entries() {
+		return [ ...this.buffer ]
+	}
+	
+	public clear() {
+		this.buffer = []
+	}
+}
+
+// eslint-disable-next-line no-var
+var LogSinks = {
+	console(): LogSink {
+		return ({ level, message, ...fields }) => {
+			const context = Object.entries(fields).filter(([ key, value ]) => key !== 'func' && key !== 'timestamp' && value != undefined).map(([ key, value ]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`).join(', ')
+			const text = `${fields.func ? `${fields.func}: ` : ''}${message}${context ? ` (${context})` : ''}`
+			
+			switch(level) {
+				case ExceptionLevel.Info:
+					info(text)
+					break
+				case ExceptionLevel.Warn:
+					warn(text)
+					break
+				case ExceptionLevel.Error:
+					error(text)
+					break
+				default:
+					fatal(text)
+					break
+			}
+		}
+	},
+	
+	jsonLines(write: (line: string) => void): LogSink {
+		return entry => write(JSON.stringify(entry))
+	},
+	
+	ringBuffer(capacity?: number) {
+		return new RingBufferSink(capacity)
+	},
+} as const
+
+class Logger {
+	private _sinks: LogSink[] = [ LogSinks.console() ]
+	private _level = ExceptionLevel.Info
+	
+	public constructor(private fields: LogFields = {}, private parent?: Logger) {}
+	
+	// Child loggers share the sinks and level of their root and add their fields to every entry
+	public child(fields: LogFields) {
+		return new Logger({ ...this.fields, ...fields }, this.parent ?? this)
+	}
+	
+	public get level(): ExceptionLevel { return this.parent ? this.parent.level : this._level }
+	public set level(value: ExceptionLevel) {
+		if(this.parent) this.parent.level = value
+		else this._level = value
+	}
+	
+	public get sinks(): LogSink[] { return this.parent ? this.parent.sinks : this._sinks }
+	public set sinks(value: LogSink[]) {
+		if(this.parent) this.parent.sinks = value
+		else this._sinks = value
+	}
+	
+	public log(level: ExceptionLevel, message: string, fields: LogFields = {}) {
+		if(level < this.level) return
+		
+		const entry = { ...redactValue({ ...this.fields, ...fields }) as LogFields, level, message: redactText(message), timestamp: Date.now() }
+		
+		for(const sink of this.sinks) {
+			try {
+				sink(entry)
+			} catch(e) {
+				// A failing sink must never break the client, the vendor output is the last resort
+				error(`Logger: sink threw ${e}`)
+			}
+		}
+	}
+	
+	public info(message: string, fields?: LogFields) {
+		this.log(ExceptionLevel.Info, message, fields)
+	}
+	
+	public warn(message: string, fields?: LogFields) {
+		this.log(ExceptionLevel.Warn, message, fields)
+	}
+	
+	public error(message: string, fields?: LogFields) {
+		this.log(ExceptionLevel.Error, message, fields)
+	}
+	
+	public fatal(message: string, fields?: LogFields) {
+		this.log(ExceptionLevel.Fatal, message, fields)
+	}
 }
 
+const logger = new Logger()
+
 /*******************\
 | Utility Functions |
 \*******************/
@@ -80,13 +337,13 @@ function assert(condition: boolean, exception: Exception) {
 }
 
 function assertInfo(condition: boolean, exception: Exception) {
-	if(!condition) info(exception.message)
+	if(!condition) logger.info(exception.message, { func: exception.func })
 }
 
 function assertWarn(condition: boolean, exception: Exception) {
 	if(!condition) {
 		exception.level = ExceptionLevel.Warn
-		warn(exception.message)
+		logger.warn(exception.message, { func: exception.func })
 		throw exception
 	}
 }
@@ -94,7 +351,7 @@ function assertWarn(condition: boolean, exception: Exception) {
 function assertError(condition: boolean, exception: Exception) {
 	if(!condition) {
 		exception.level = ExceptionLevel.Error
-		error(exception.message)
+		logger.error(exception.message, { func: exception.func })
 		throw exception
 	}
 }
@@ -102,11 +359,68 @@ function assertError(condition: boolean, exception: Exception) {
 function assertFatal(condition: boolean, exception: Exception) {
 	if(!condition) {
 		exception.level = ExceptionLevel.Fatal
-		fatal(exception.message)
+		logger.fatal(exception.message, { func: exception.func })
 		throw exception
 	}
 }
 
+function normalizeProvider(provider: string) {
+	if(!provider.startsWith('http://') && !provider.startsWith('https://')) provider = 'https://' + provider
+	
+	while(provider.endsWith('/')) provider = provider.substring(0, provider.length - 1)
+	
+	return provider
+}
+
+// Non-idempotent requests are only retried if they can not have reached the server
+function isTransientRequestError(e: unknown, idempotent = true) {
+	if(!e || typeof e !== 'object') return false
+	
+	const { status, code } = e as Partial<RequestError>
+	
+	if(!idempotent) return code != undefined && [ 'ECONNREFUSED', 'ENETUNREACH', 'EHOSTUNREACH', 'EAI_AGAIN' ].includes(code)
+	
+	if(status != undefined) return status >= 500 || status == 408 || status == 429
+	
+	return code == undefined || [ 'ECONNRESET', 'ECONNABORTED', 'ECONNREFUSED', 'ETIMEDOUT', 'ENETUNREACH', 'EHOSTUNREACH', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK' ].includes(code)
+}
+
+function responseHeader(response: Response<unknown>, name: string) {
+	return Object.entries(response.headers).find(([ key ]) => key.toLowerCase() === name.toLowerCase())?.[1]
+}
+
+function parseContentDisposition(header: string | undefined) {
+	if(!header) return undefined
+	
+	// RFC 6266: filename* (RFC 5987 encoded) takes precedence over filename
+	const extendedMatch = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i)
+	if(extendedMatch) {
+		try {
+			return decodeURIComponent(extendedMatch[2].trim())
+		} catch(e) {
+			// Fall back to the plain filename parameter
+		}
+	}
+	
+	const match = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i)
+	if(!match) return undefined
+	
+	return match[1] != undefined ? match[1].replace(/\\(.)/g, '$1') : match[2].trim()
+}
+
+function hashString(str: string) {
+	let first = 0x811c9dc5
+	let second = 0x01000193
+	
+	for(let i = 0; i < str.length; i++) {
+		const code = str.charCodeAt(i)
+		first = Math.imul(first ^ code, 0x01000193) >>> 0
+		second = Math.imul(second ^ code, 0x5bd1e995) >>> 0
+	}
+	
+	return first.toString(16).padStart(8, '0') + second.toString(16).padStart(8, '0')
+}
+
 /***********\
 | Constants |
 \***********/
@@ -122,6 +436,54 @@ enum Page {
 	SCHEDULER = 'scheduler_processor.php'
 }
 
+const SCHEDULE_CHUNK_DAYS = 7
+
+const MIN_GRADE = 1
+const MAX_GRADE = 6
+const SUFFICIENT_GRADE = 4
+
+const KEEP_ALIVE_INTERVAL = 25 * 60 * 1000
+const KEEP_ALIVE_TICK = 60 * 1000
+
+// Concurrent requests of all sessions of a SessionManager to the same provider
+const PROVIDER_REQUEST_LIMIT = 2
+
+type CredentialProvider = () => string | Promise<string>
+
+type Account = {
+	provider: string
+	username: string
+}
+
+type SessionState = {
+	provider: string
+	username: string
+	cookies: Cookie[]
+	id?: string
+	transId?: string
+	lastVisitedPageId?: Page
+	lastActivity?: number
+}
+
+type RetryOptions = {
+	retries: number
+	baseDelay: number
+	maxDelay: number
+	jitter: number
+	timeout: number
+}
+
+type PageFetcher = (pageId: Page, changesState?: boolean, additionalQueryParameters?: { [key: string]: string | number }) => Promise<string>
+
+type SessionRequestOptions = RequestOptions & {
+	idempotent?: boolean
+}
+
+type DateRange = {
+	from: number
+	to: number
+}
+
 class User {
 	teachers: Teacher[] = []
 	students: Student[] = []
@@ -134,6 +496,130 @@ class User {
 	grades: Grade[] = []
 }
 
+/*********\
+| Cookies |
+\*********/
+
+type Cookie = {
+	name: string
+	value: string
+	domain: string
+	hostOnly: boolean
+	path: string
+	expires?: number
+	secure: boolean
+	httpOnly: boolean
+}
+
+function splitCookieUrl(url: string) {
+	const [ , scheme, host, path ] = /^([a-z][a-z0-9+.-]*):\/\/(?:[^@/?#]*@)?([^:/?#]*)(?::\d+)?([^?#]*)/i.exec(url) ?? []
+	return { secure: scheme?.toLowerCase() === 'https', host: (host ?? '').toLowerCase(), path: path || '/' }
+}
+
+function cookieDomainMatches(host: string, domain: string) {
+	return host === domain || (host.endsWith('.' + domain) && !/^[\d.]+$/.test(host))
+}
+
+function cookiePathMatches(path: string, cookiePath: string) {
+	return path === cookiePath || (path.startsWith(cookiePath) && (cookiePath.endsWith('/') || path[cookiePath.length] === '/'))
+}
+
+class CookieJar {
+	private cookies: Cookie[] = []
+	
+	public update(url: string, setCookies: string[]) {
+		const { host, path } = splitCookieUrl(url)
+		const now = Date.now()
+		
+		for(const setCookie of setCookies) {
+			const [ pair, ...attributes ] = setCookie.split(';')
+			
+			const separator = pair.indexOf('=')
+			if(separator < 0) continue
+			
+			const name = pair.substring(0, separator).trim()
+			if(!name) continue
+			
+			const cookie: Cookie = { name: name, value: pair.substring(separator + 1).trim(), domain: host, hostOnly: true, path: path.substring(0, path.lastIndexOf('/')) || '/', secure: false, httpOnly: false }
+			
+			let maxAge: number | undefined
+			let rejected = false
+			
+			for(const attribute of attributes) {
+				const attributeSeparator = attribute.indexOf('=')
+				const key = (attributeSeparator < 0 ? attribute : attribute.substring(0, attributeSeparator)).trim().toLowerCase()
+				const value = attributeSeparator < 0 ? '' : attribute.substring(attributeSeparator + 1).trim()
+				
+				switch(key) {
+					case 'expires': {
+						const expires = Date.parse(value)
+						if(!isNaN(expires)) cookie.expires = expires
+						break
+					}
+					case 'max-age':
+						if(/^-?\d+$/.test(value)) maxAge = parseInt(value)
+						break
+					case 'domain': {
+						const domain = value.replace(/^\./, '').toLowerCase()
+						if(!domain) break
+						
+						if(!cookieDomainMatches(host, domain)) rejected = true
+						else {
+							cookie.domain = domain
+							cookie.hostOnly = false
+						}
+						break
+					}
+					case 'path':
+						if(value.startsWith('/')) cookie.path = value
+						break
+					case 'secure':
+						cookie.secure = true
+						break
+					case 'httponly':
+						cookie.httpOnly = true
+						break
+				}
+			}
+			
+			if(rejected) continue
+			
+			if(maxAge != undefined) cookie.expires = maxAge <= 0 ? 0 : now + maxAge * 1000
+			
+			this.cookies = this.cookies.filter(existing => existing.name !== cookie.name || existing.domain !== cookie.domain || existing.path !== cookie.path)
+			
+			if(cookie.expires == undefined || cookie.expires > now) this.cookies.push(cookie)
+		}
+	}
+	
+	public cookieString(url: string) {
+		const { secure, host, path } = splitCookieUrl(url)
+		const now = Date.now()
+		
+		this.cookies = this.cookies.filter(cookie => cookie.expires == undefined || cookie.expires > now)
+		
+		return this.cookies
+			.filter(cookie => (cookie.hostOnly ? host === cookie.domain : cookieDomainMatches(host, cookie.domain)) && cookiePathMatches(path, cookie.path) && (!cookie.secure || secure))
+			.sort((first, second) => second.path.length - first.path.length)
+			.map(cookie => cookie.name + '=' + cookie.value)
+			.join('; ')
+	}
+	
+	public clear() {
+		this.cookies = []
+	}
+	
+	public toJSON(): Cookie[] {
+		return this.cookies.map(cookie => ({ ...cookie }))
+	}
+	
+	public static fromJSON(cookies: Cookie[]) {
+		const jar = new CookieJar()
+		jar.cookies = cookies.map(cookie => ({ ...cookie }))
+		return jar
+	}
+}
+
 /*********\
 | Session |
 \*********/
@@ -146,16 +632,60 @@ class Session {
 	
 	private provider: string
 	private username: string
-	private password: string
+	private password: string | CredentialProvider
 	
-	public constructor(provider: string, username: string, password: string) {
-		if(!provider.startsWith('http://') && !provider.startsWith('https://')) provider = 'https://' + provider
-		
-		while(provider.endsWith('/')) provider = provider.substring(0, provider.length - 1)
-		
-		this.provider = provider
+	public logger: Logger
+	
+	public constructor(provider: string, username: string, password: string | CredentialProvider) {
+		this.provider = normalizeProvider(provider)
 		this.username = username
 		this.password = password
+		
+		this.logger = logger.child({ provider: this.provider, session: username })
+	}
+	
+	public get account(): Account {
+		return { provider: this.provider, username: this.username }
+	}
+	
+	public setPassword(password: string | CredentialProvider) {
+		this.password = password
+	}
+	
+	/*****************\
+	| Network Retries |
+	\*****************/
+	
+	public retryOptions: RetryOptions = { retries: 3, baseDelay: 500, maxDelay: 8000, jitter: 0.5, timeout: 30 * 1000 }
+	public requestLimiter?: RequestLimiter
+	
+	// POSTs change the state on the server unless they are marked as idempotent
+	private async performRequest(func: string, url: string, options: SessionRequestOptions & { binary: true }): Promise<Response<ArrayBuffer>>
+	private async performRequest(func: string, url: string, options?: SessionRequestOptions): Promise<Response>
+	private async performRequest(func: string, url: string, { idempotent, ...options }: SessionRequestOptions = {}): Promise<Response | Response<ArrayBuffer>> {
+		idempotent ??= options.method == undefined || options.method.toUpperCase() === 'GET'
+		
+		for(let attempt = 0;; attempt++) {
+			try {
+				const cookieString = this.cookies.cookieString(url)
+				const requestOptions = { timeout: this.retryOptions.timeout, ...options, headers: cookieString ? { ...options.headers, 'Cookie': cookieString } : options.headers }
+				const response: Response | Response<ArrayBuffer> = this.requestLimiter ? await this.requestLimiter.run(() => request(url, requestOptions)) : await request(url, requestOptions)
+				
+				this.cookies.update(url, response.setCookies)
+				this.lastActivity = Date.now()
+				
+				return response
+			} catch(e) {
+				const { status, code, message } = (e && typeof e === 'object' ? e : { message: `${e}` }) as Partial<RequestError>
+				
+				if(!isTransientRequestError(e, idempotent) || attempt >= this.retryOptions.retries) throw new NetworkException(func, url, message ?? 'request failed', status, code)
+				
+				const delay = Math.min(this.retryOptions.maxDelay, this.retryOptions.baseDelay * 2 ** attempt)
+				this.logger.info(`retrying request (attempt ${attempt + 1} of ${this.retryOptions.retries}, ${message})`, { func, url })
+				
+				await wait(delay * (1 - this.retryOptions.jitter * Math.random()))
+			}
+		}
 	}
 	
 	/**************\
@@ -165,6 +695,7 @@ class Session {
 	private id?: string
 	private transId?: string
 	private lastVisitedPageId?: Page
+	private lastActivity?: number
 	
 	private verifyPageAndExtractIds(dom: DOMObject) {
 		const links = dom.querySelector('#header-menu ul[for=sn-main-menu] > li:nth-child(1) > a')
@@ -297,50 +828,15 @@ class Session {
 	| Cookie Handling |
 	\*****************/
 	
-	private cookies: { [key: string]: string } = {}
-	
-	private get cookieString() {
-		return Object.entries(this.cookies).map(([ key, value ]) => key + '=' + value).join('; ')
-	}
-	
-	private updateCookies(resp: Response) {
-		let rawHeaders = resp.headers['set-cookie']
-		assert(!!rawHeaders, new ParserException('updateCookies', `!!rawHeaders (was ${undefined})`))
-		
-		let key: string | undefined = undefined
-		let metadata = false
-		
-		let match
-		while(match = /(^.*?)([;=,])/.exec(rawHeaders)) {
-			if(match && match.length == 3) {
-				rawHeaders = rawHeaders.substring(match[0].length).trim()
-				
-				if(key == undefined) {
-					key = match[1]
-					
-					if(match[2] !== '=') continue
-				} else {
-					if(match[2] !== '=' && !metadata) {
-						this.cookies[(key as string).trim()] = match[1].trim()
-					}
-					
-					key = undefined
-					
-					if(match[2] === ',') {
-						metadata = false
-						continue
-					}
-					
-					metadata = true
-				}
-			}
-		}
-	}
+	private cookies = new CookieJar()
 	
 	/******************\
 	| Timeout Handling |
 	\******************/
 	
+	// Sessions owned by a SessionManager are kept alive by its shared timer instead of their own
+	public sharedKeepAlive = false
+	
 	private sessionTimerRunning = false
 	private waitKey?: symbol
 	
@@ -348,9 +844,7 @@ class Session {
 		if(!this.loggedIn) return false
 		
 		try {
-			const response = await request(`${this.provider}/xajax_js.php?pageid=${this.lastVisitedPageId}&id=${this.id}&transid=${this.transId}`, { method: 'POST', body: 'xajax=reset_timeout', headers: { 'Cookie': this.cookieString } })
-			
-			this.updateCookies(response)
+			await this.performRequest('resetTimeout', `${this.provider}/xajax_js.php?pageid=${this.lastVisitedPageId}&id=${this.id}&transid=${this.transId}`, { method: 'POST', body: 'xajax=reset_timeout', idempotent: true })
 		} catch(e) {
 			this.handleLogout()
 			
@@ -360,16 +854,24 @@ class Session {
 		return true
 	}
 	
+	public async keepAlive(maxIdleTime = KEEP_ALIVE_INTERVAL) {
+		if(!this.loggedIn) return false
+		if(this.lastActivity && Date.now() - this.lastActivity < maxIdleTime) return true
+		
+		return await this.resetTimeout()
+	}
+	
 	private async sessionTimer() {
-		if(this.sessionTimerRunning) return
+		if(this.sessionTimerRunning || this.sharedKeepAlive) return
 		
 		this.sessionTimerRunning = true
 		
 		try {
 			do {
-				const promise = wait(25 * 60 * 1000)
+				const promise = wait(KEEP_ALIVE_INTERVAL)
 				this.waitKey = promise.waitKey
 				await promise
+				this.waitKey = undefined
 			} while(await this.resetTimeout())
 		} catch(e) {}
 		
@@ -399,8 +901,7 @@ class Session {
 			}
 			
 			// TODO: Error handling
-			let html = await request(`${this.provider}/loginto.php`)
-			this.updateCookies(html)
+			let html = await this.performRequest('login', `${this.provider}/loginto.php`)
 			
 			// TODO: Error handling
 			const dom = DOMObject.parse(html.content)
@@ -412,20 +913,21 @@ class Session {
 			assert(!!loginHash, new ParserException('login', `loginHash == null || loginHash == '' ${loginHash != undefined ? '\'\'' : undefined}`))
 			
 			// TODO: Error handling
-			html = await request(`${this.provider}/index.php`, { method: 'POST', body: `login=${encodeURIComponent(this.username)}&passwort=${encodeURIComponent(this.password)}&loginhash=${encodeURIComponent(loginHash)}`, headers: { 'Cookie': this.cookieString }, ignoreStatusCode: true })
+			html = await this.performRequest('login', `${this.provider}/index.php`, { method: 'POST', body: `login=${encodeURIComponent(this.username)}&passwort=${encodeURIComponent(typeof this.password === 'function' ? await this.password() : this.password)}&loginhash=${encodeURIComponent(loginHash)}`, ignoreStatusCode: true })
 			
 			if(html.status != 200) {
-				if(html.status == 302 && html.headers['location']) {
-					const code = parseInt((extractQueryParameters(html.headers['location']) ?? {})['mode'])
+				if(html.status == 302) {
+					// Browsers hide the target of redirects, so the reason of the failure is unknown there
+					if(!html.headers['location']) return new SchulNetzException('login', 'login failed (redirected)')
+					
+					const code = parseInt((extractQueryParameters(html.headers['location'], this.provider) ?? {})['mode'])
 					
-					if(!isNaN(code)) return new SchulNetzException('login', 'login failed', code)
+					if(!isNaN(code)) return new SchulNetzException('login', `login failed (${code in LoginError ? LoginError[code] : `mode ${code}`})`, code)
 				}
 				
 				return new SchulNetzException('login', `login failed (HTTP ${html.status})`)
 			}
 			
-			this.updateCookies(html)
-			
 			// TODO: Error handling
 			this.verifyPageAndExtractIds(DOMObject.parse(html.content))
 			
@@ -435,7 +937,9 @@ class Session {
 		} catch(e) {
 			this.handleLogout()
 			
-			return new SchulNetzException('login', `login failed (threw ${JSON.stringify(e)})`)
+			if(e instanceof NetworkException) return e
+			
+			return new SchulNetzException('login', `login failed (threw ${redactText(e instanceof Exception || e instanceof Error ? e.message : JSON.stringify(e))})`)
 		} finally{
 			this.releaseStateLock(stateLock)
 		}
@@ -443,6 +947,60 @@ class Session {
 		return null
 	}
 	
+	public exportState(): SessionState {
+		return {
+			provider: this.provider,
+			username: this.username,
+			cookies: this.cookies.toJSON(),
+			id: this.id,
+			transId: this.transId,
+			lastVisitedPageId: this.lastVisitedPageId,
+			lastActivity: this.lastActivity,
+		}
+	}
+	
+	public async resume(state: SessionState): Promise<Exception | null> {
+		if(this.loggedIn) return null
+		
+		if(state.provider === this.provider && state.username === this.username && state.id && state.transId && state.lastVisitedPageId != null) {
+			let stateLock: symbol | undefined = await this.acquireStateLockWithPriority()
+			assert(!!stateLock, new Exception('resume', 'Failed to acquire state lock'))
+			stateLock = stateLock as symbol
+			
+			let resumed = false
+			
+			try {
+				if(this.loggedIn) return null
+				
+				this.cookies = CookieJar.fromJSON(state.cookies)
+				this.id = state.id
+				this.transId = state.transId
+				this.lastVisitedPageId = state.lastVisitedPageId
+				this.lastActivity = state.lastActivity
+				this.loggedIn = true
+				
+				// Verified like fetchPage, the page only contains the menu if the session is still logged in and its links carry the next transid
+				const response = await this.performRequest('resume', this.pageUrl(state.lastVisitedPageId), { method: 'GET' })
+				this.verifyPageAndExtractIds(DOMObject.parse(response.content))
+				
+				resumed = true
+			} catch(e) {
+				this.handleLogout()
+			} finally{
+				this.releaseStateLock(stateLock)
+			}
+			
+			if(resumed) {
+				this.sessionTimer()
+				return null
+			}
+			
+			this.logger.info('stored session expired, logging in again', { func: 'resume' })
+		}
+		
+		return await this.login()
+	}
+	
 	public async logout() {
 		if(!this.loggedIn) {
 			this.handleLogout()
@@ -458,7 +1016,7 @@ class Session {
 		
 		try {
 			// TODO: Error handling
-			await request(`${this.provider}/index.php?pageid=9999&id=${this.id}&transid=${this.transId}`, { method: 'GET', headers: { 'Cookie': this.cookieString }, ignoreStatusCode: true })
+			await this.performRequest('logout', `${this.provider}/index.php?pageid=9999&id=${this.id}&transid=${this.transId}`, { method: 'GET', ignoreStatusCode: true })
 		} finally{
 			this.handleLogout()
 			this.releaseStateLock(stateLock)
@@ -470,7 +1028,7 @@ class Session {
 		this.transId = undefined
 		this.lastVisitedPageId = undefined
 		
-		this.cookies = {}
+		this.cookies.clear()
 		
 		this.loggedIn = false
 		
@@ -481,6 +1039,11 @@ class Session {
 	| Fetching Pages |
 	\****************/
 	
+	private pageUrl(pageId: Page, additionalQueryParameters: { [key: string]: string | number } = {}) {
+		const pageStr = typeof pageId === 'string' ? `${pageId}?` : `index.php?pageid=${pageId}&`
+		return `${this.provider}/${pageStr}id=${this.id}&transid=${this.transId}${Object.entries(additionalQueryParameters).map(([ key, value ]) => `&${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('')}`
+	}
+	
 	public async fetchPage(pageId: Page, changesState = true, additionalQueryParameters: { [key: string]: string | number } = {}) {
 		// TODO: Stop throwing asserts
 		
@@ -494,19 +1057,21 @@ class Session {
 			assert(success, new Exception('fetchPage', 'Failed to retain stable state'))
 		}
 		
-		assert(this.loggedIn, new Exception('fetchPage', 'Not logged in'))
-		
-		const pageStr = typeof pageId === 'string' ? `${pageId}?` : `index.php?pageid=${pageId}&`
 		let html: string
 		
 		try {
+			// Checked inside the try block, so the lock is released again when not logged in
+			assert(this.loggedIn, new Exception('fetchPage', 'Not logged in'))
+			
 			// TODO: Error handling
-			const response = await request(`${this.provider}/${pageStr}id=${this.id}&transid=${this.transId}${Object.entries(additionalQueryParameters).map(([ key, value ]) => `&${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('')}`, { method: 'GET', headers: { 'Cookie': this.cookieString } })
+			const response = await this.performRequest('fetchPage', this.pageUrl(pageId, additionalQueryParameters), { method: 'GET' })
 			
 			html = response.content
 			
 			if(changesState) this.verifyPageAndExtractIds(DOMObject.parse(html))
 		} catch(e) {
+			this.logger.warn(`failed to fetch page (${e instanceof Exception ? e.message : e})`, { func: 'fetchPage', page: pageId })
+			
 			this.handleLogout()
 			
 			// TODO: stop rethrowing
@@ -527,928 +1092,2709 @@ class Session {
 		
 		this.fetchPage(pageId, changesState, additionalQueryParameters)
 	}
-}
-
-/****************\
-| Parser Results |
-\****************/
-
-class ParserResult {
-	exceptions: Exception[] = []
-}
-
-class TeachersParserResult extends ParserResult {
-	teachers?: Teacher[] = []
-}
-
-class StudentsParserResult extends ParserResult {
-	students?: Student[] = []
-}
-
-class TransactionsParserResult extends ParserResult {
-	transactions?: Transaction[] = []
-	firstName?: string
-	lastName?: string
-}
-
-class AbsencesParserResult extends ParserResult {
-	absences?: Absence[] = []
-	absenceReports?: AbsenceReport[] = []
-	openAbsences?: OpenAbsence[] = []
-	lateAbsences?: LateAbsence[] = []
-}
-
-class GradesParserResult extends ParserResult {
-	subjects?: Subject[] = []
-	grades?: Grade[] = []
-}
-
-class ScheduleParserResult extends ParserResult {
-	lessons?: Lesson[] = []
-}
-
-/*********\
-| Parsers |
-\*********/
-
-// TODO: Persist Parser object without declaring it var, maybe using globalThis
-
-// eslint-disable-next-line no-var, @typescript-eslint/no-unused-vars
-var Parser = {
-	parseTeachers(content: string): TeachersParserResult {
-		const result = new TeachersParserResult()
+	
+	/*******************\
+	| Fetching Schedule |
+	\*******************/
+	
+	// Like in the browser, the schedule page is loaded before the scheduler is queried, so it can set up its state in the session
+	private async fetchScheduleResult(from: number, to: number, fetchPage: PageFetcher = (...args) => this.fetchPage(...args)) {
+		const result = new ScheduleParserResult()
+		const lessons = new Map<string, Lesson>()
 		
-		try {
-			assertError(!!content, new ParserException('parseTeachers', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
-			
-			const lines = content.trim().replace(/[\r\n]+/g, '\n').split('\n')
+		await fetchPage(Page.SCHEDULE)
+		
+		const chunkStart = new Date(from)
+		chunkStart.setHours(0, 0, 0, 0)
+		
+		while(chunkStart.getTime() <= to) {
+			const chunkEnd = new Date(chunkStart)
+			chunkEnd.setDate(chunkEnd.getDate() + SCHEDULE_CHUNK_DAYS - 1)
 			
-			assertFatal(lines.length >= 1, new ParserException('parseTeachers', `lines.length >= 1 (was ${lines.length})`))
+			const content = await fetchPage(Page.SCHEDULER, false, {
+				'view': 'week',
+				'curr_date': formatDate(chunkStart.getTime(), 'yyyy-MM-dd'),
+				'min_date': formatDate(chunkStart.getTime(), 'yyyy-MM-dd'),
+				'max_date': formatDate(Math.min(chunkEnd.getTime(), to), 'yyyy-MM-dd'),
+				'ansicht': 'schueleransicht',
+				'showOnlyThisClass': -2,
+			})
 			
-			lines.shift()
+			const parsed = Parser.parseSchedule(content)
+			result.exceptions.push(...parsed.exceptions)
 			
-			let line: string | undefined
-			while((line = lines.shift()) != undefined) {
-				try {
-					line = line.trim()
-				
-					const matches = Array.from(line.matchAll(/"(([^"]|"")*)"/g))
-				
-					assertFatal(matches.length == 4, new ParserException('parseTeachers', `matches.length == 4 (was ${matches.length})`))
-					for(let i = 0; i < matches.length; i++) {
-						assertFatal(!!matches[i], new ParserException('parseTeachers', `!!matches[${i}] (was ${undefined})`))
-						assertFatal(matches[i].length >= 2, new ParserException('parseTeachers', `matches[${i}].length >= 2 (was ${matches[i].length})`))
-						assertFatal(typeof matches[i][1] === 'string', new ParserException('parseTeachers', `typeof matches[${i}][1] === 'string' (was ${typeof matches[i][1]})`))
-					}
-				
-					const teacher: Partial<Teacher> = {}
-				
-					teacher.id = generateUUID()
-				
-					teacher.lastName = matches[0][1].trim().replace(/""/g, '"')
-					teacher.firstName = matches[1][1].trim().replace(/""/g, '"')
-					teacher.abbreviation = matches[2][1].trim().replace(/""/g, '"')
-					teacher.email = matches[3][1].trim().replace(/""/g, '"')
+			for(const lesson of parsed.lessons ?? []) {
+				if(lesson.endDate < from || lesson.startDate > to) continue
 				
-					result.teachers?.push(teacher as Teacher)
-				} catch(exception) {
-					if(exception instanceof Exception) result.exceptions.push(exception)
-					else result.exceptions.push(new JavaScriptException('parseTeachers', `${exception}`))
-				}
+				const key = [ lesson.startDate, lesson.endDate, lesson.text, lesson.subjectAbbreviation, lesson.room ].join('\u0000')
+				if(!lessons.has(key)) lessons.set(key, lesson)
 			}
-		} catch(exception) {
-			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('parseTeachers', `${exception}`))
+			
+			chunkStart.setDate(chunkStart.getDate() + SCHEDULE_CHUNK_DAYS)
 		}
 		
-		if(result.teachers?.length === 0) result.teachers = undefined
+		result.lessons = Array.from(lessons.values()).sort((first, second) => first.startDate - second.startDate)
+		if(result.lessons.length === 0) result.lessons = undefined
 		
 		return result
-	},
+	}
 	
-	parseStudents(content: string): StudentsParserResult {
-		const result = new StudentsParserResult()
+	public async fetchSchedule(from: number, to: number): Promise<Lesson[]> {
+		return (await this.fetchScheduleResult(from, to)).lessons ?? []
+	}
+	
+	/***********\
+	| Documents |
+	\***********/
+	
+	public async fetchDocuments(): Promise<Document[]> {
+		return Parser.parseDocuments(await this.fetchPage(Page.DOCUMENT_DOWNLOAD)).documents ?? []
+	}
+	
+	public async downloadDocument(document: Document): Promise<DocumentDownload> {
+		const success = await this.retainStableState()
+		assert(success, new Exception('downloadDocument', 'Failed to retain stable state'))
 		
 		try {
-			assertError(!!content, new ParserException('parseStudents', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
-		
-			const lines = content.trim().replace(/[\r\n]+/g, '\n').split('\n')
-		
-			assertError(!!lines, new ParserException('parseStudents', `!!lines (was ${lines})`))
-			assertFatal(lines.length > 0, new ParserException('parseStudents', `lines.length > 0 (was ${lines.length})`))
-		
-			lines.shift()
-		
-			let line: string | undefined
-			while((line = lines.shift()) != undefined) {
-				try {
-					line = line.trim()
-			
-					const matches = Array.from(line.matchAll(/"(([^"]|"")*)"/g))
-			
-					assertFatal(matches.length == 12, new ParserException('parseStudents', `matches.length == 12 (was ${matches.length})`))
-					for(let i = 0; i < matches.length; i++) {
-						assertFatal(!!matches[i], new ParserException('parseStudents', `!!matches[${i}] (was ${undefined})`))
-						assertFatal(matches[i].length >= 2, new ParserException('parseStudents', `matches[${i}].length >= 2 (was ${matches[i].length})`))
-						assertFatal(typeof matches[i][1] === 'string', new ParserException('parseStudents', `typeof matches[${i}][1] === 'string' (was ${typeof matches[i][1]})`))
-					}
+			assert(this.loggedIn, new Exception('downloadDocument', 'Not logged in'))
 			
-					const student: Partial<Student> = {}
+			// The link contains the ids of the page it was parsed from, which may have changed since
+			const url = new URL(document.url, `${this.provider}/`)
+			url.searchParams.set('id', `${this.id}`)
+			url.searchParams.set('transid', `${this.transId}`)
 			
-					student.id = generateUUID()
+			const response = await this.performRequest('downloadDocument', url.href, { method: 'GET', binary: true })
 			
-					student.lastName = matches[0][1].trim().replace(/""/g, '"')
-					student.firstName = matches[1][1].trim().replace(/""/g, '"')
+			return {
+				content: response.content,
+				contentType: responseHeader(response, 'content-type')?.split(';')[0].trim(),
+				filename: parseContentDisposition(responseHeader(response, 'content-disposition')),
+			}
+		} finally{
+			this.releaseStableState()
+		}
+	}
+	
+	/*******************\
+	| Confirming Grades |
+	\*******************/
+	
+	private async runGradeConfirmations(func: string, filter: (subject: Subject) => boolean, dryRun: boolean) {
+		const result = new GradeConfirmationResult(dryRun)
+		
+		// Subjects which were unconfirmed before, only those can be reported as confirmed
+		let subjects: Subject[] = []
+		
+		const stateLock = await this.acquireStateLock()
+		assert(!!stateLock, new Exception(func, 'Failed to acquire state lock'))
+		
+		try {
+			assert(this.loggedIn, new Exception(func, 'Not logged in'))
 			
-					switch(matches[2][1].trim().replace(/""/g, '"')) {
-						case 'm':
-							student.gender = '♂'
-							break
-						case 'w':
-							student.gender = '♀'
-							break
-						default:
-							student.gender = '⚧'
-							break
-					}
+			const page = await this.performRequest(func, this.pageUrl(Page.GRADES), { method: 'GET' })
+			this.verifyPageAndExtractIds(DOMObject.parse(page.content))
 			
-					student.degree = matches[3][1].trim().replace(/""/g, '"')
-					student.bilingual = matches[4][1].trim().replace(/""/g, '"') === 'b'
-					student.clazz = matches[5][1].trim().replace(/""/g, '"')
-					student.address = matches[6][1].trim().replace(/""/g, '"')
+			const parsed = Parser.parseGrades(page.content)
+			result.exceptions.push(...parsed.exceptions)
 			
-					student.zip = parseInt(matches[7][1].trim().replace(/""/g, '"'))
-					assertError(!isNaN(student.zip), new ParserException('parseStudents', `!isNaN(student.zip) (was ${NaN})`))
+			subjects = (parsed.subjects ?? []).filter(subject => !subject.gradesConfirmed && filter(subject))
 			
-					student.city = matches[8][1].trim().replace(/""/g, '"')
-					student.phone = matches[9][1].trim().replace(/""/g, '"')
-					student.additionalClass = matches[10][1].trim().replace(/""/g, '"')
-					student.status = matches[11][1].trim().replace(/""/g, '"')
+			if(dryRun) {
+				result.pending = subjects
+				result.subjects = parsed.subjects
+				return result
+			}
 			
-					result.students?.push(student as Student)
-				} catch(exception) {
-					if(exception instanceof Exception) result.exceptions.push(exception)
-					else result.exceptions.push(new JavaScriptException('parseStudents', `${exception}`))
+			for(const subject of subjects) {
+				const confirmationUrl = parsed.confirmationUrls[subject.id]
+				
+				if(!confirmationUrl) {
+					result.exceptions.push(new ParserException(func, `confirmationUrls[${subject.id}] (was ${undefined})`))
+					continue
 				}
+				
+				// The link contains the ids of the page it was parsed from, which change with every confirmation
+				const url = new URL(confirmationUrl, `${this.provider}/`)
+				url.searchParams.set('id', `${this.id}`)
+				url.searchParams.set('transid', `${this.transId}`)
+				
+				const response = await this.performRequest(func, url.href, { method: 'GET' })
+				this.verifyPageAndExtractIds(DOMObject.parse(response.content))
 			}
-		} catch(exception) {
-			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('parseStudents', `${exception}`))
+		} catch(e) {
+			if(!(e instanceof Exception) || e instanceof NetworkException || e instanceof ParserException) this.handleLogout()
+			
+			throw e
+		} finally{
+			this.releaseStateLock(stateLock as symbol)
 		}
 		
-		if(result.students?.length === 0) result.students = undefined
+		const parsed = Parser.parseGrades(await this.fetchPage(Page.GRADES))
+		result.exceptions.push(...parsed.exceptions)
+		result.subjects = parsed.subjects ?? []
 		
-		return result
-	},
-	
-	parseTransactions(content: string): TransactionsParserResult {
-		const result = new TransactionsParserResult()
+		for(const subject of result.subjects) {
+			if(subject.gradesConfirmed || !filter(subject)) continue
+			
+			result.pending.push(subject)
+		}
 		
-		try {
-			assertError(!!content, new ParserException('parseTransaction', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
+		const requestedIds = new Set(subjects.map(subject => subject.id))
+		result.confirmed = result.subjects.filter(subject => requestedIds.has(subject.id) && subject.gradesConfirmed)
 		
-			let dom: DOMObject | undefined
+		if(result.pending.length > 0) result.exceptions.push(new Exception(func, `Grades of ${result.pending.map(subject => subject.abbreviation).join(', ')} are still unconfirmed`))
 		
-			// TODO: Error handling
-			dom = DOMObject.parse(content)
+		return result
+	}
+	
+	public async confirmGrades(subject: Subject): Promise<Subject> {
+		const result = await this.runGradeConfirmations('confirmGrades', other => other.id === subject.id, false)
 		
-			assertError(!!dom, new ParserException('parseTransactions', `!!dom (was ${undefined})`))
+		const updatedSubject = result.subjects?.find(other => other.id === subject.id)
+		assert(!!updatedSubject, new Exception('confirmGrades', `Subject ${subject.abbreviation} (${subject.id}) not found`))
+		assert(!!updatedSubject?.gradesConfirmed, new Exception('confirmGrades', `Grades of ${subject.abbreviation} are still unconfirmed`))
 		
-			dom = dom as DOMObject
+		return updatedSubject as Subject
+	}
+	
+	public async confirmAllGrades(dryRun = false): Promise<GradeConfirmationResult> {
+		return await this.runGradeConfirmations('confirmAllGrades', () => true, dryRun)
+	}
+	
+	/*******************\
+	| Excusing Absences |
+	\*******************/
+	
+	public async excuseAbsences(openAbsences: OpenAbsence[], reason: string, comment = ''): Promise<AbsenceExcuseResult> {
+		const result = new AbsenceExcuseResult()
 		
-			const tables = dom.querySelector('#content-card > table')
+		assert(openAbsences.length > 0, new Exception('excuseAbsences', 'No open absences selected'))
 		
-			assertFatal(!!tables, new ParserException('parseTransactions', `!!tables (was ${undefined})`))
-			assertFatal(tables.length == 2, new ParserException('parseTransactions', `tables.length == 2 (was ${tables.length})`))
-			assertFatal(!!tables[0], new ParserException('parseTransactions', `!!tables[0] (was ${undefined})`))
-			assertFatal(!!tables[1], new ParserException('parseTransactions', `!!tables[1] (was ${undefined})`))
+		const stateLock = await this.acquireStateLock()
+		assert(!!stateLock, new Exception('excuseAbsences', 'Failed to acquire state lock'))
+		
+		try {
+			assert(this.loggedIn, new Exception('excuseAbsences', 'Not logged in'))
 			
-			const nameTable = tables[0]
+			// The form has to be loaded in the same state lock, as its action contains the current transid
+			const page = await this.performRequest('excuseAbsences', this.pageUrl(Page.ABSENCES), { method: 'GET' })
+			this.verifyPageAndExtractIds(DOMObject.parse(page.content))
 			
-			const nameRows = nameTable.querySelector('tr')
+			const { excuseForm, exceptions } = Parser.parseAbsences(page.content)
+			result.exceptions.push(...exceptions)
 			
-			assertFatal(nameRows.length == 2, new ParserException('parseTransactions', `nameRows.length == 2 (was ${nameRows.length})`))
+			assert(!!excuseForm, new ParserException('excuseAbsences', `!!excuseForm (was ${undefined})`))
+			const form = excuseForm as AbsenceExcuseForm
 			
-			const lastNameFields = nameRows[0].querySelector('td')
+			const body = Object.entries(form.fields)
 			
-			assertFatal(lastNameFields.length == 2, new ParserException('parseTransactions', `lastNameFields.length == 2 (was ${lastNameFields.length})`))
+			for(const openAbsence of openAbsences) {
+				const selection = form.selections[openAbsence.id]
+				assert(!!selection, new Exception('excuseAbsences', `Open absence ${openAbsence.lessonAbbreviation} (${openAbsence.id}) can not be excused`))
+				
+				body.push(selection)
+			}
 			
-			result.lastName = lastNameFields[1].innerText().trim()
+			if(form.reasonField) {
+				const reasonValue = form.reasons ? form.reasons[reason] ?? Object.values(form.reasons).find(value => value === reason) : reason
+				assert(reasonValue != undefined, new Exception('excuseAbsences', `Unknown reason ${reason} (expected one of ${Object.keys(form.reasons ?? {}).join(', ')})`))
+				
+				body.push([ form.reasonField, reasonValue as string ])
+			}
 			
-			const firstNameFields = nameRows[1].querySelector('td')
+			if(form.commentField) body.push([ form.commentField, comment ])
 			
-			assertFatal(firstNameFields.length == 2, new ParserException('parseTransactions', `firstNameFields.length == 2 (was ${firstNameFields.length})`))
-		
-			result.firstName = firstNameFields[1].innerText().trim()
+			const response = await this.performRequest('excuseAbsences', new URL(form.action, `${this.provider}/`).href, { method: 'POST', body: body.map(([ key, value ]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&') })
+			this.verifyPageAndExtractIds(DOMObject.parse(response.content))
+		} catch(e) {
+			// Unknown selections and reasons keep the session, anything else leaves it in an unknown state
+			if(!(e instanceof Exception) || e instanceof NetworkException || e instanceof ParserException) this.handleLogout()
 			
-			const table = tables[1]
+			throw e
+		} finally{
+			this.releaseStateLock(stateLock as symbol)
+		}
 		
-			const rows = table.querySelector('tr')
+		// Excused absences disappear from the open absences
+		const parsed = Parser.parseAbsences(await this.fetchPage(Page.ABSENCES))
+		result.exceptions.push(...parsed.exceptions)
+		result.openAbsences = parsed.openAbsences ?? []
 		
-			assertFatal(!!rows, new ParserException('parseTransactions', `!!rows (was ${undefined})`))
-			assertFatal(rows.length >= 2, new ParserException('parseTransactions', `rows.length >= 2 (was ${rows.length})`))
+		const remainingIds = new Set(result.openAbsences.map(openAbsence => openAbsence.id))
 		
-			rows.shift()
-			rows.pop()
+		for(const openAbsence of openAbsences) {
+			if(remainingIds.has(openAbsence.id)) result.pending.push(openAbsence)
+			else result.excused.push(openAbsence)
+		}
 		
-			for(let i = 0; i < rows.length; i++) {
-				if(!rows[i]) {
-					rows.splice(i, 1)
-					i--
-				}
-			}
+		if(result.pending.length > 0) result.exceptions.push(new Exception('excuseAbsences', `${result.pending.length} of ${openAbsences.length} open absences are still open after excusing them`))
 		
-			for(const row of rows) {
-				try {
-					const fields = row.querySelector('td')
-			
-					assertFatal(!!fields, new ParserException('parseTransactions', `!!fields (was ${undefined})`))
-					assertFatal(fields.length == 4, new ParserException('parseTransactions', `fields.length == 4 (was ${fields.length})`))
-					for(let i = 0; i < fields.length; i++) assertFatal(!!fields[i], new ParserException('parseTransactions', `!!fields[${i}] (was ${undefined})`))
-			
-					const transaction: Partial<Transaction> = {}
-			
-					transaction.id = generateUUID()
-			
-					const dateHTML = fields[0].innerText()?.trim()
-					assertFatal(!!dateHTML, new ParserException('parseTransactions', `!!dateHTML (was ${dateHTML != undefined ? '\'\'' : undefined})`))
-					transaction.date = parseDate(dateHTML, 'dd.MM.yyyy')
-			
-					transaction.reason = fields[1].innerText()?.trim()
-					assertFatal(!!transaction.reason, new ParserException('parseTransactions', `!!transaction.reason (was ${transaction.reason != undefined ? '\'\'' : undefined})`))
-			
-					const amountElement = fields[2].querySelector('span')
-					assertFatal(!!amountElement, new ParserException('parseTransactions', `!!amountElement (was ${undefined})`))
-					assertFatal(amountElement.length == 1, new ParserException('parseTransactions', `amountElement.length == 4 (was ${amountElement.length})`))
-					assertFatal(!!amountElement[0], new ParserException('parseTransactions', `!!amountElement[0] (was ${undefined})`))
+		return result
+	}
+	
+	/*********\
+	| Syncing |
+	\*********/
+	
+	private async syncSection<T extends ParserResult>(result: SyncResult, section: SyncSection, fetch: () => Promise<T>, apply: (parsed: T) => boolean, restore: (previous: SyncResult) => void, previous?: SyncResult) {
+		let failed = false
+		const exceptions: Exception[] = []
+		
+		try {
+			const parsed = await fetch()
+			exceptions.push(...parsed.exceptions)
 			
-					const amountHTML = amountElement[0].innerText()?.trim()
-					assertFatal(!!amountHTML, new ParserException('parseTransactions', `!!amountHTML (was ${amountHTML != undefined ? '\'\'' : undefined})`))
-					transaction.amount = parseFloat(amountHTML)
-					assertFatal(!isNaN(transaction.amount), new ParserException('parseTransactions', `!isNaN(transaction.amount) (was ${NaN})`))
+			failed = !apply(parsed) && parsed.exceptions.length > 0
+		} catch(exception) {
+			exceptions.push(exception instanceof Exception ? exception : new JavaScriptException(`sync(${SyncSection[section]})`, `${exception}`))
 			
-					result.transactions?.push(transaction as Transaction)
-				} catch(exception) {
-					if(exception instanceof Exception) result.exceptions.push(exception)
-					else result.exceptions.push(new JavaScriptException('parseTransactions', `${exception}`))
-				}
+			failed = true
+		}
+		
+		// A failed login is thrown by every following section, but only recorded once
+		result.exceptions.push(...exceptions.filter(exception => !result.exceptions.includes(exception)))
+		result.sectionExceptions[section] = exceptions
+		
+		if(!failed) result.sections[section] = SyncStatus.Fresh
+		else if(previous && previous.sections[section] != SyncStatus.Missing) {
+			restore(previous)
+			result.sections[section] = SyncStatus.Stale
+		} else result.sections[section] = SyncStatus.Missing
+	}
+	
+	public async sync(previous?: SyncResult): Promise<SyncResult> {
+		const result = new SyncResult()
+		const user: Partial<User> = {}
+		
+		// A failed page logs the session out, so the following sections log in again unless logging in already failed
+		let loginException: Exception | null = null
+		const fetchPage: PageFetcher = async (pageId, changesState = true, additionalQueryParameters = {}) => {
+			if(!this.loggedIn) {
+				loginException ??= await this.login()
+				if(loginException) throw loginException
 			}
-		} catch(exception) {
-			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('parseTransactions', `${exception}`))
+			
+			return await this.fetchPage(pageId, changesState, additionalQueryParameters)
 		}
 		
-		if(result.transactions?.length === 0) result.transactions = undefined
+		await this.syncSection(result, SyncSection.TEACHERS, async () => Parser.parseTeachers(await fetchPage(Page.TEACHERS, false)), parsed => {
+			user.teachers = parsed.teachers ?? []
+			return !!parsed.teachers
+		}, previous => user.teachers = previous.teachers, previous)
+		
+		await this.syncSection(result, SyncSection.STUDENTS, async () => Parser.parseStudents(await fetchPage(Page.STUDENTS, false)), parsed => {
+			user.students = parsed.students ?? []
+			return !!parsed.students
+		}, previous => user.students = previous.students, previous)
+		
+		await this.syncSection(result, SyncSection.TRANSACTIONS, async () => Parser.parseTransactions(await fetchPage(Page.TRANSACTIONS)), parsed => {
+			user.transactions = parsed.transactions ?? []
+			return !!parsed.transactions
+		}, previous => user.transactions = previous.transactions, previous)
+		
+		await this.syncSection(result, SyncSection.ABSENCES, async () => Parser.parseAbsences(await fetchPage(Page.ABSENCES)), parsed => {
+			user.absences = parsed.absences ?? []
+			user.absenceReports = parsed.absenceReports ?? []
+			user.openAbsences = parsed.openAbsences ?? []
+			user.lateAbsences = parsed.lateAbsences ?? []
+			return !!(parsed.absences || parsed.absenceReports || parsed.openAbsences || parsed.lateAbsences)
+		}, previous => {
+			user.absences = previous.absences
+			user.absenceReports = previous.absenceReports
+			user.openAbsences = previous.openAbsences
+			user.lateAbsences = previous.lateAbsences
+		}, previous)
+		
+		await this.syncSection(result, SyncSection.GRADES, async () => Parser.parseGrades(await fetchPage(Page.GRADES)), parsed => {
+			user.subjects = parsed.subjects ?? []
+			user.grades = parsed.grades ?? []
+			return !!(parsed.subjects || parsed.grades)
+		}, previous => {
+			user.subjects = previous.subjects
+			user.grades = previous.grades
+		}, previous)
+		
+		const weekStart = new Date()
+		weekStart.setHours(0, 0, 0, 0)
+		weekStart.setDate(weekStart.getDate() - (weekStart.getDay() + 6) % 7)
+		
+		const weekEnd = new Date(weekStart)
+		weekEnd.setDate(weekEnd.getDate() + 7)
+		
+		const scheduleRange = { from: weekStart.getTime(), to: weekEnd.getTime() - 1 }
+		
+		await this.syncSection(result, SyncSection.SCHEDULE, async () => await this.fetchScheduleResult(scheduleRange.from, scheduleRange.to, fetchPage), parsed => {
+			result.lessons = parsed.lessons ?? []
+			return !!parsed.lessons
+		}, previous => {
+			result.lessons = previous.lessons
+			result.scheduleRange = previous.scheduleRange
+		}, previous)
+		
+		if(result.sections[SyncSection.SCHEDULE] == SyncStatus.Fresh) result.scheduleRange = scheduleRange
+		
+		const linkResult = link(user)
+		result.exceptions.push(...linkResult.exceptions)
+		
+		result.teachers = linkResult.teachers ?? []
+		result.students = linkResult.students ?? []
+		result.transactions = linkResult.transactions ?? []
+		result.absences = linkResult.absences ?? []
+		result.absenceReports = linkResult.absenceReports ?? []
+		result.openAbsences = linkResult.openAbsences ?? []
+		result.lateAbsences = linkResult.lateAbsences ?? []
+		result.subjects = linkResult.subjects ?? []
+		result.grades = linkResult.grades ?? []
 		
 		return result
-	},
+	}
+}
+
+/*****************\
+| Session Manager |
+\*****************/
+
+// Caps the number of concurrent requests of all sessions sharing the limiter
+class RequestLimiter {
+	private running = 0
+	private queue: (() => void)[] = []
 	
-	parseAbsences(content: string): AbsencesParserResult {
-		const result = new AbsencesParserResult()
+	constructor(public maxConcurrent: number) {}
+	
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		if(this.running >= this.maxConcurrent) await new Promise<void>(resolve => this.queue.push(resolve))
+		else this.running++
 		
 		try {
-			assertError(!!content, new ParserException('parseAbsences', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
-		
-			let dom: DOMObject | undefined
-		
-			// TODO: Error handling
-			dom = DOMObject.parse(content)
+			return await task()
+		} finally{
+			// The slot is handed over to the next task without being released
+			const next = this.queue.shift()
+			if(next) next()
+			else this.running--
+		}
+	}
+}
+
+type AccountSyncResult = {
+	account: Account
+	result: SyncResult
+	diff?: SnapshotDiffingResult
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+class SessionManager {
+	private sessions = new Map<string, Session>()
+	private previousResults = new Map<string, SyncResult>()
+	private limiters = new Map<string, RequestLimiter>()
+	
+	private keepAliveRunning = false
+	private waitKey?: symbol
+	
+	public constructor(public maxConcurrentRequests = PROVIDER_REQUEST_LIMIT, public keepAliveInterval = KEEP_ALIVE_INTERVAL) {}
+	
+	public static accountKey(account: Account) {
+		return `${account.username}@${account.provider}`
+	}
+	
+	public get accounts(): Account[] {
+		return Array.from(this.sessions.values()).map(session => session.account)
+	}
+	
+	public get(account: Account) {
+		return this.sessions.get(SessionManager.accountKey({ provider: normalizeProvider(account.provider), username: account.username }))
+	}
+	
+	/**********\
+	| Accounts |
+	\**********/
+	
+	public add(provider: string, username: string, password: string | CredentialProvider) {
+		const session = new Session(provider, username, password)
+		const key = SessionManager.accountKey(session.account)
+		
+		const existingSession = this.sessions.get(key)
+		if(existingSession) {
+			existingSession.setPassword(password)
+			return existingSession
+		}
 		
-			assertError(!!dom, new ParserException('parseAbsences', `!!dom (was ${undefined})`))
+		let limiter = this.limiters.get(session.account.provider)
+		if(!limiter) {
+			limiter = new RequestLimiter(this.maxConcurrentRequests)
+			this.limiters.set(session.account.provider, limiter)
+		}
 		
-			dom = dom as DOMObject
+		session.sharedKeepAlive = true
+		session.requestLimiter = limiter
 		
-			const tables = dom.querySelector('#uebersicht_bloecke > page > div > table')
+		this.sessions.set(key, session)
+		this.keepAlive()
 		
-			assertFatal(!!tables, new ParserException('parseAbsences', `!!tables (was ${undefined})`))
-			assertFatal(tables.length == 1 || tables.length == 2, new ParserException('parseAbsences', `tables.length == 1 || tables.length == 2 (was ${tables.length})`))
-			for(let i = 0; i < tables.length; i++) assertFatal(!!tables[i], new ParserException('parseAbsences', `!!tables[${i}] (was ${undefined})`))
+		return session
+	}
+	
+	public async remove(account: Account) {
+		const session = this.get(account)
+		if(!session) return false
 		
-			const absenceRows = tables[0].querySelector('table.mdl-data-table > tbody > tr')
+		const key = SessionManager.accountKey(session.account)
+		this.sessions.delete(key)
+		this.previousResults.delete(key)
 		
-			assertFatal(!!absenceRows, new ParserException('parseAbsences', `!!absenceRows (was ${undefined})`))
+		await session.logout()
 		
-			if(absenceRows.length > 0 && absenceRows[absenceRows.length - 1].querySelector('button').length > 0) absenceRows.pop()
+		if(this.sessions.size == 0) this.stopKeepAlive()
 		
-			assertFatal(absenceRows.length >= 3, new ParserException('parseAbsences', `absenceRows.length >= 3 (was ${absenceRows.length})`))
-			assertFatal((absenceRows.length - 3) % 2 == 0, new ParserException('parseAbsences', `(absenceRows.length - 3) % 2 == 0 (was ${absenceRows.length})`))
+		return true
+	}
+	
+	public async reauthenticate(account: Account, password?: string | CredentialProvider): Promise<Exception | null> {
+		const session = this.get(account)
+		assert(!!session, new Exception('reauthenticate', `Unknown account ${SessionManager.accountKey(account)}`))
 		
-			absenceRows.shift()
-			absenceRows.pop()
-			absenceRows.pop()
+		if(password != undefined) session?.setPassword(password)
 		
-			for(let i = 0; i < absenceRows.length; i++) {
-				if(!absenceRows[i]) {
-					absenceRows.splice(i, 1)
-					i--
-				}
-			}
+		await session?.logout()
+		return await (session as Session).login()
+	}
+	
+	public async dispose() {
+		this.stopKeepAlive()
 		
-			for(let absenceRowIndex = 0; absenceRowIndex < absenceRows.length; absenceRowIndex++) {
-				try {
-					const absenceRow = absenceRows[absenceRowIndex]
-					const absenceFields = absenceRow.querySelector('td')
-			
-					assertFatal(!!absenceFields, new ParserException('parseAbsences', `!!absenceFields (was ${undefined})`))
-					assertFatal(absenceFields.length == 7, new ParserException('parseAbsences', `absenceFields.length == 7 (was ${absenceFields.length})`))
-					for(let i = 0; i < absenceFields.length; i++) assertFatal(!!absenceFields[i], new ParserException('parseAbsences', `!!absenceFields[${i}] (was ${undefined})`))
-			
-					const absence: Partial<Absence> = {}
-			
-					absence.id = generateUUID()
-			
-					const absenceFromDateHTML = absenceFields[0].innerText()?.trim()
-					assertFatal(!!absenceFromDateHTML, new ParserException('parseAbsences', `!!absenceFromDateHTML (was ${absenceFromDateHTML != undefined ? '\'\'' : undefined})`))
-					const absenceToDateHTML = absenceFields[1].innerText()?.trim()
-					assertFatal(!!absenceToDateHTML, new ParserException('parseAbsences', `!!absenceToDateHTML (was ${absenceToDateHTML != undefined ? '\'\'' : undefined})`))
-			
-					absence.startDate = parseDate(absenceFromDateHTML, 'dd.MM.yyyy')
-					assertFatal(!!absence.startDate, new ParserException('parseAbsences', `!!absence.startDate (was ${undefined})`))
-					absence.endDate = parseDate(absenceToDateHTML, 'dd.MM.yyyy')
-					assertFatal(!!absence.endDate, new ParserException('parseAbsences', `!!absence.endDate (was ${undefined})`))
-			
-					absence.reason = absenceFields[2].innerText()?.trim()
-					assertFatal(absence.reason != undefined, new ParserException('parseAbsences', `absence.reason (was ${undefined})`))
-			
-					absence.additionalInfo = absenceFields[3].innerText()?.trim()
-					assertFatal(absence.additionalInfo != undefined, new ParserException('parseAbsences', `absence.additionalInfo (was ${undefined})`))
-			
-					absence.deadline = absenceFields[4].innerText()?.trim()
-					assertFatal(absence.deadline != undefined, new ParserException('parseAbsences', `absence.deadline (was ${undefined})`))
-			
-					const excused = absenceFields[5].innerText()?.trim()
-					assertFatal(excused != undefined, new ParserException('parseAbsences', `excused (was ${undefined})`))
-					absence.excused = excused === 'Ja'
-			
-					const lessonCount = absenceFields[6].innerText()?.trim()
-					assertFatal(lessonCount != undefined, new ParserException('parseAbsences', `lessonCount (was ${undefined})`))
-					absence.lessonCount = parseInt(lessonCount)
-					assertFatal(!isNaN(absence.lessonCount), new ParserException('parseAbsences', `!isNaN(absence.lessonCount) (was ${NaN})`))
+		await Promise.all(Array.from(this.sessions.values()).map(session => session.logout()))
+		
+		this.sessions.clear()
+		this.previousResults.clear()
+	}
+	
+	/*********\
+	| Syncing |
+	\*********/
+	
+	public async sync(): Promise<AccountSyncResult[]> {
+		return await Promise.all(Array.from(this.sessions.entries()).map(async ([ key, session ]) => {
+			const previous = this.previousResults.get(key)
+			
+			let result: SyncResult
+			try {
+				result = await session.sync(previous)
+			} catch(exception) {
+				result = new SyncResult()
+				
+				if(exception instanceof Exception) result.exceptions.push(exception)
+				else result.exceptions.push(new JavaScriptException('sync', `${exception}`))
+			}
 			
-					result.absences?.push(absence as Absence)
+			// Sessions might have been removed while syncing
+			if(this.sessions.get(key) === session) this.previousResults.set(key, result)
 			
-					let reportsTable: DOMObject
-					if(absenceRowIndex + 1 < absenceRows.length && ([ reportsTable ] = absenceRows[absenceRowIndex + 1].querySelector('tr table')) && reportsTable) {
-						absenceRowIndex++
-				
-						const absenceReportRows = reportsTable.querySelector('tr')
-				
-						assertFatal(!!absenceReportRows, new ParserException('parseAbsences', `!!absenceReportRows (was ${undefined})`))
-						assertFatal(absenceReportRows.length >= 2, new ParserException('parseAbsences', `absenceReportRows.length >= 2 (was ${absenceReportRows.length})`))
-						for(let i = 0; i < absenceReportRows.length; i++) assertFatal(!!absenceReportRows[i], new ParserException('parseAbsences', `!!absenceReportRows[${i}] (was ${undefined})`))
-				
-						absenceReportRows.shift()
-						absenceReportRows.shift()
+			return { account: session.account, result, diff: previous ? diff(previous, result) : undefined }
+		}))
+	}
+	
+	/************\
+	| Keep Alive |
+	\************/
+	
+	// A single timer keeps all sessions alive, sessions which have been active recently are skipped
+	private async keepAlive() {
+		if(this.keepAliveRunning) return
+		
+		this.keepAliveRunning = true
+		
+		try {
+			while(this.sessions.size > 0) {
+				const promise = wait(KEEP_ALIVE_TICK)
+				this.waitKey = promise.waitKey
+				await promise
+				this.waitKey = undefined
 				
-						for(let absenceReportRowIndex = 0; absenceReportRowIndex < absenceReportRows.length; absenceReportRowIndex++) {
-							try {
-								const absenceReportRow = absenceReportRows[absenceReportRowIndex]
-								const absenceReportFields = absenceReportRow.querySelector('td')
-					
-								assertFatal(!!absenceReportFields, new ParserException('parseAbsences', `!!absenceReportFields (was ${undefined})`))
-								assertFatal(absenceReportFields.length == 4, new ParserException('parseAbsences', `absenceReportFields.length == 7 (was ${absenceReportFields.length})`))
-								for(let i = 0; i < absenceReportFields.length; i++) assertFatal(!!absenceReportFields[i], new ParserException('parseAbsences', `!!absenceReportFields[${i}] (was ${undefined})`))
-					
-								const absenceReport: Partial<AbsenceReport> = {}
-					
-								absenceReport.id = generateUUID()
-					
-								absenceReport.absenceId = absence.id
-					
-								const absenceReportDateHTML = absenceReportFields[0].innerText()?.trim()
-								assertFatal(!!absenceReportDateHTML, new ParserException('parseAbsences', `!!absenceReportDateHTML (was ${absenceReportDateHTML != undefined ? '\'\'' : undefined})`))
-					
-								const absenceReportTimeHTML = absenceReportFields[1].innerText()?.trim()
-								assertFatal(!!absenceReportTimeHTML, new ParserException('parseAbsences', `!!absenceReportTimeHTML (was ${absenceReportTimeHTML != undefined ? '\'\'' : undefined})`))
-								const [ absenceReportStartTime, absenceReportEndTime ] = absenceReportTimeHTML.split('bis').map(str => str.trim())
-								assertFatal(!!absenceReportStartTime, new ParserException('parseAbsences', `!!absenceReportStartTime (was ${absenceReportStartTime != undefined ? '\'\'' : undefined})`))
-								assertFatal(!!absenceReportEndTime, new ParserException('parseAbsences', `!!absenceReportEndTime (was ${absenceReportEndTime != undefined ? '\'\'' : undefined})`))
-					
-								absenceReport.startDate = parseDate(`${absenceReportDateHTML} ${absenceReportStartTime}`, 'dd.MM.yyyy HH:mm')
-								assertFatal(!!absenceReport.startDate, new ParserException('parseAbsences', `!!absenceReport.startDate (was ${undefined})`))
-					
-								absenceReport.endDate = parseDate(`${absenceReportDateHTML} ${absenceReportEndTime}`, 'dd.MM.yyyy HH:mm')
-								assertFatal(!!absenceReport.endDate, new ParserException('parseAbsences', `!!absenceReport.endDate (was ${undefined})`))
-					
-								absenceReport.lessonAbbreviation = absenceReportFields[2].innerText()?.trim()
-								assertFatal(absenceReport.lessonAbbreviation != undefined, new ParserException('parseAbsences', `absenceReport.lessonAbbreviation (was ${undefined})`))
-					
-								absenceReport.comment = absenceReportFields[3].innerText()?.trim()
-								assertFatal(absenceReport.comment != undefined, new ParserException('parseAbsences', `absenceReport.comment (was ${undefined})`))
+				await Promise.all(Array.from(this.sessions.values()).map(async session => {
+					if(!session.loggedIn) return
 					
-								result.absenceReports?.push(absenceReport as AbsenceReport)
-							} catch(exception) {
-								if(exception instanceof Exception) result.exceptions.push(exception)
-								else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
-							}
-						}
-					}
-				} catch(exception) {
-					if(exception instanceof Exception) result.exceptions.push(exception)
-					else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
-				}
+					if(!await session.keepAlive(this.keepAliveInterval)) session.logger.info('session expired', { func: 'keepAlive' })
+				}))
 			}
+		} catch(e) {}
 		
-			const openAbsencesTables = dom.querySelector('#uebersicht_bloecke > page form > table')
-		
-			assertFatal(!!openAbsencesTables, new ParserException('parseAbsences', `!!openAbsencesTables (was ${undefined})`))
-			assertFatal(openAbsencesTables.length == 1, new ParserException('parseAbsences', `openAbsencesTables.length == 1 (was ${openAbsencesTables.length})`))
-			for(let i = 0; i < openAbsencesTables.length; i++) assertFatal(!!openAbsencesTables[i], new ParserException('parseAbsences', `!!openAbsencesTables[${i}] (was ${undefined})`))
+		this.keepAliveRunning = false
+	}
+	
+	private stopKeepAlive() {
+		if(this.waitKey) cancelWait(this.waitKey)
+		this.waitKey = undefined
+	}
+}
+
+/*****\
+| CSV |
+\*****/
+
+type CsvColumns<K extends string> = { [key in K]: string[] }
+
+// Header names (lower case) of the columns in the SchulNetz exports, the first entry is the current name and the others are known aliases.
+// The order of the keys is the positional layout of the original exports, which is used if the header names are not recognised.
+const TeacherCsvColumns: CsvColumns<'lastName' | 'firstName' | 'abbreviation' | 'email'> = {
+	lastName: ['nachname', 'name'],
+	firstName: ['vorname'],
+	abbreviation: ['kürzel', 'kuerzel'],
+	email: ['e-mail', 'email'],
+}
+
+const StudentCsvColumns: CsvColumns<'lastName' | 'firstName' | 'gender' | 'degree' | 'bilingual' | 'clazz' | 'address' | 'zip' | 'city' | 'phone' | 'additionalClass' | 'status'> = {
+	lastName: ['nachname', 'name'],
+	firstName: ['vorname'],
+	gender: ['geschlecht'],
+	degree: ['lehrgang'],
+	bilingual: ['bilingual'],
+	clazz: ['klasse'],
+	address: ['adresse'],
+	zip: ['plz'],
+	city: ['ort'],
+	phone: ['telefon'],
+	additionalClass: ['zusatzklasse'],
+	status: ['status'],
+}
+
+// RFC 4180 tokenizer which can be fed chunk by chunk, the delimiter (; or ,) is detected from the first unquoted occurrence unless given
+class CsvReader {
+	private field = ''
+	private row: string[] = []
+	private quoted = false
+	private inQuotes = false
+	private quotePending = false
+	private carriageReturn = false
+	private started = false
+	
+	constructor(public delimiter?: ';' | ',') {}
+	
+	static parse(content: string, delimiter?: ';' | ','): string[][] {
+		const reader = new CsvReader(delimiter)
+		return [ ...reader.push(content), ...reader.end() ]
+	}
+	
+	static mapColumns<C extends CsvColumns<string>>(func: string, header: string[], columns: C, required: (keyof C & string)[]): { [key in keyof C]?: number } {
+		const names = header.map(name => name.trim().toLowerCase())
+		const indices: { [key in keyof C]?: number } = {}
 		
-			const openAbsenceRows = openAbsencesTables[0].querySelector('tr')
+		for(const key in columns) {
+			const index = names.findIndex(name => columns[key].includes(name))
+			if(index >= 0) indices[key] = index
+		}
 		
-			assertFatal(!!openAbsenceRows, new ParserException('parseAbsences', `!!openAbsenceRows (was ${undefined})`))
-			assertFatal(openAbsenceRows.length >= 3, new ParserException('parseAbsences', `openAbsenceRows.length >= 3 (was ${openAbsenceRows.length})`))
+		if(required.some(key => indices[key] == undefined) && header.length == Object.keys(columns).length) {
+			logger.warn('unknown header names, falling back to the positional layout', { func })
+			return Object.fromEntries(Object.keys(columns).map((key, index) => [ key, index ])) as { [key in keyof C]?: number }
+		}
 		
-			openAbsenceRows.shift()
-			openAbsenceRows.pop()
-			openAbsenceRows.pop()
+		for(const key of required) {
+			assertFatal(indices[key] != undefined, new ParserException(func, `indices.${key} != undefined (was ${undefined})`))
+		}
 		
-			for(let i = 0; i < openAbsenceRows.length; i++) {
-				if(!openAbsenceRows[i]) {
-					openAbsenceRows.splice(i, 1)
-					i--
-				}
-			}
+		return indices
+	}
+	
+	static column(row: string[], index?: number) {
+		return index != undefined ? row[index]?.trim() ?? '' : ''
+	}
+	
+	push(chunk: string): string[][] {
+		const rows: string[][] = []
 		
-			for(const openAbsenceRow of openAbsenceRows) {
-				try {
-					const openAbsenceFields = openAbsenceRow.querySelector('td')
-			
-					assertFatal(!!openAbsenceFields, new ParserException('parseAbsences', `!!openAbsenceFields (was ${undefined})`))
-					assertFatal(openAbsenceFields.length == 4, new ParserException('parseAbsences', `openAbsenceFields.length == 4 (was ${openAbsenceFields.length})`))
-					for(let i = 0; i < openAbsenceFields.length; i++) assertFatal(!!openAbsenceFields[i], new ParserException('parseAbsences', `!!openAbsenceFields[${i}] (was ${undefined})`))
-			
-					const openAbsence: Partial<OpenAbsence> = {}
-			
-					openAbsence.id = generateUUID()
-			
-					const openAbsenceDateHTML = openAbsenceFields[0].innerText()?.trim()
-					assertFatal(!!openAbsenceDateHTML, new ParserException('parseAbsences', `!!openAbsenceDateHTML (was ${openAbsenceDateHTML != undefined ? '\'\'' : undefined})`))
-					const openAbsenceTimeHTML = openAbsenceFields[1].innerText()?.trim()
-					assertFatal(!!openAbsenceTimeHTML, new ParserException('parseAbsences', `!!openAbsenceTimeHTML (was ${openAbsenceTimeHTML != undefined ? '\'\'' : undefined})`))
-					assertFatal(Array.from(openAbsenceTimeHTML.matchAll(/-/g)).length == 1, new ParserException('parseAbsences', `Array.from(openAbsenceTimeHTML.matchAll(/-/g)).length == 1 (was ${Array.from(openAbsenceTimeHTML.matchAll(/-/g)).length})`))
-					const [ openAbsenceFromTime, openAbsenceToTime ] = openAbsenceTimeHTML.split('-').map(str => str.trim())
-					openAbsence.startDate = parseDate(`${openAbsenceDateHTML} ${openAbsenceFromTime}`, 'dd.MM.yyyy HH:mm')
-					assertFatal(!!openAbsence.startDate, new ParserException('parseAbsences', `!!openAbsence.startDate (was ${undefined})`))
-					openAbsence.endDate = parseDate(`${openAbsenceDateHTML} ${openAbsenceToTime}`, 'dd.MM.yyyy HH:mm')
-					assertFatal(!!openAbsence.endDate, new ParserException('parseAbsences', `!!openAbsence.endDate (was ${undefined})`))
-			
-					openAbsence.lessonAbbreviation = openAbsenceFields[2].innerText()?.trim()
-					assertFatal(openAbsence.lessonAbbreviation != undefined, new ParserException('parseAbsences', `openAbsence.lessonAbbreviation (was ${undefined})`))
-			
-					result.openAbsences?.push(openAbsence as OpenAbsence)
-				} catch(exception) {
-					if(exception instanceof Exception) result.exceptions.push(exception)
-					else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
-				}
+		for(const char of chunk) {
+			if(!this.started) {
+				this.started = true
+				if(char === '\uFEFF') continue
 			}
-		
-			if(tables.length == 2) {
-				const lateAbsenceTableRows = tables[1].querySelector('tr')
-			
-				assertFatal(!!lateAbsenceTableRows, new ParserException('parseAbsences', `!!lateAbsenceTableRows (was ${undefined})`))
-				assertFatal(lateAbsenceTableRows.length >= 3, new ParserException('parseAbsences', `lateAbsenceTableRows.length >= 3 (was ${lateAbsenceTableRows.length})`))
 			
-				lateAbsenceTableRows.shift()
-				lateAbsenceTableRows.pop()
-				lateAbsenceTableRows.pop()
+			const carriageReturn = this.carriageReturn
+			this.carriageReturn = false
 			
-				for(let i = 0; i < lateAbsenceTableRows.length; i++) {
-					if(!lateAbsenceTableRows[i]) {
-						lateAbsenceTableRows.splice(i, 1)
-						i--
+			if(this.inQuotes) {
+				if(this.quotePending) {
+					this.quotePending = false
+					
+					if(char === '"') {
+						this.field += '"'
+						continue
 					}
+					
+					this.inQuotes = false
+				} else {
+					if(char === '"') this.quotePending = true
+					else this.field += char
+					
+					continue
 				}
+			}
 			
-				for(const lateAbsenceRow of lateAbsenceTableRows) {
-					try {
-						const lateAbsenceFields = lateAbsenceRow.querySelector('td')
+			if(char === '"' && !this.quoted && this.field.length == 0) {
+				this.quoted = true
+				this.inQuotes = true
+			} else if((char === ';' || char === ',') && (this.delimiter ?? char) === char) {
+				this.delimiter = char
+				this.endField()
+			} else if(char === '\r' || char === '\n') {
+				this.carriageReturn = char === '\r'
+				if(char === '\n' && carriageReturn) continue
 				
-						assertFatal(!!lateAbsenceFields, new ParserException('parseAbsences', `!!lateAbsenceFields (was ${undefined})`))
-						assertFatal(lateAbsenceFields.length == 5, new ParserException('parseAbsences', `lateAbsenceFields.length == 5 (was ${lateAbsenceFields.length})`))
-						for(let i = 0; i < lateAbsenceFields.length; i++) assertFatal(!!lateAbsenceFields[i], new ParserException('parseAbsences', `!!lateAbsenceFields[${i}] (was ${undefined})`))
-				
-						const lateAbsence: Partial<LateAbsence> = {}
-				
-						lateAbsence.id = generateUUID()
-				
-						let lateAbsenceDateHTML = lateAbsenceFields[0].innerText()?.replaceAll('(*)', '')?.trim()
-						assertFatal(!!lateAbsenceDateHTML, new ParserException('parseAbsences', `!!lateAbsenceDateHTML (was ${lateAbsenceDateHTML != undefined ? '\'\'' : undefined})`))
-						const commaSeparated = lateAbsenceDateHTML.split(',')
-						assertFatal(commaSeparated.length == 2, new ParserException('parseAbsences', `commaSeparated.length == 2 (was ${commaSeparated.length})`))
-						lateAbsenceDateHTML = commaSeparated[1].trim()
-						const lateAbsenceTimeHTML = lateAbsenceFields[1].innerText()?.trim()
-						assertFatal(!!lateAbsenceTimeHTML, new ParserException('parseAbsences', `!!lateAbsenceTimeHTML (was ${lateAbsenceTimeHTML != undefined ? '\'\'' : undefined})`))
-						lateAbsence.date = parseDate(`${lateAbsenceDateHTML} ${lateAbsenceTimeHTML}`, 'dd.MM.yyyy HH:mm')
-						assertFatal(!!lateAbsence.date, new ParserException('parseAbsences', `!!lateAbsence.date (was ${undefined})`))
-				
-						lateAbsence.reason = lateAbsenceFields[2].innerText()?.trim()
-						assertFatal(lateAbsence.reason != undefined, new ParserException('parseAbsences', `lateAbsence.reason != undefined (was ${undefined})`))
+				this.endRow(rows)
+			} else {
+				this.field += char
+			}
+		}
+		
+		return rows
+	}
+	
+	end(): string[][] {
+		const rows: string[][] = []
+		
+		if(this.field.length > 0 || this.quoted || this.row.length > 0) this.endRow(rows)
+		
+		this.inQuotes = false
+		this.quotePending = false
+		
+		return rows
+	}
+	
+	private endField() {
+		this.row.push(this.field)
+		this.field = ''
+		this.quoted = false
+	}
+	
+	private endRow(rows: string[][]) {
+		this.endField()
+		
+		// Skip empty lines
+		if(this.row.length > 1 || this.row[0].trim().length > 0) rows.push(this.row)
+		
+		this.row = []
+	}
+}
+
+/****************\
+| Parser Results |
+\****************/
+
+class ParserResult {
+	exceptions: Exception[] = []
+}
+
+class TeachersParserResult extends ParserResult {
+	teachers?: Teacher[] = []
+}
+
+class StudentsParserResult extends ParserResult {
+	students?: Student[] = []
+}
+
+class TransactionsParserResult extends ParserResult {
+	transactions?: Transaction[] = []
+	firstName?: string
+	lastName?: string
+}
+
+// Form to excuse open absences, selections maps the ids of the open absences to the name and value of their checkboxes
+type AbsenceExcuseForm = {
+	action: string
+	fields: { [name: string]: string }
+	reasonField?: string
+	reasons?: { [text: string]: string }
+	commentField?: string
+	selections: { [openAbsenceId: string]: [string, string] }
+}
+
+class AbsencesParserResult extends ParserResult {
+	absences?: Absence[] = []
+	absenceReports?: AbsenceReport[] = []
+	openAbsences?: OpenAbsence[] = []
+	lateAbsences?: LateAbsence[] = []
+	excuseForm?: AbsenceExcuseForm
+}
+
+class GradesParserResult extends ParserResult {
+	subjects?: Subject[] = []
+	grades?: Grade[] = []
+	confirmationUrls: { [subjectId: string]: string } = {}
+}
+
+class ScheduleParserResult extends ParserResult {
+	lessons?: Lesson[] = []
+}
+
+class DocumentsParserResult extends ParserResult {
+	documents?: Document[] = []
+}
+
+/*********\
+| Parsers |
+\*********/
+
+// TODO: Persist Parser object without declaring it var, maybe using globalThis
+
+// eslint-disable-next-line no-var, @typescript-eslint/no-unused-vars
+var Parser = {
+	parseTeachers(content: string): TeachersParserResult {
+		const result = new TeachersParserResult()
+		const ids = new ContentIdGenerator()
+		
+		try {
+			assertError(!!content, new ParserException('parseTeachers', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
+			
+			const rows = CsvReader.parse(content)
+			
+			assertFatal(rows.length >= 1, new ParserException('parseTeachers', `rows.length >= 1 (was ${rows.length})`))
+			
+			const columns = CsvReader.mapColumns('parseTeachers', rows.shift() as string[], TeacherCsvColumns, ['lastName', 'firstName', 'abbreviation'])
+			
+			let row: string[] | undefined
+			while((row = rows.shift()) != undefined) {
+				try {
+					const teacher: Partial<Teacher> = {}
 				
-						const timespan = lateAbsenceFields[3].innerText()?.trim()
-						assertFatal(!!timespan, new ParserException('parseAbsences', `!!timespan (was ${timespan != undefined ? '\'\'' : undefined})`))
-						lateAbsence.timespan = parseInt(timespan)
-						assertFatal(!isNaN(lateAbsence.timespan), new ParserException('parseAbsences', `!isNaN(lateAbsence.timespan) (was ${NaN})`))
+					teacher.lastName = CsvReader.column(row, columns.lastName)
+					teacher.firstName = CsvReader.column(row, columns.firstName)
+					teacher.abbreviation = CsvReader.column(row, columns.abbreviation)
+					teacher.email = CsvReader.column(row, columns.email)
 				
-						const excused = lateAbsenceFields[4].innerText()?.trim()
-						assertFatal(!!excused, new ParserException('parseAbsences', `!!excused (was ${excused != undefined ? '\'\'' : undefined})`))
-						lateAbsence.excused = excused === 'Ja'
+					teacher.id = ids.generate(ObjectType.TEACHER, teacher)
 				
-						result.lateAbsences?.push(lateAbsence as LateAbsence)
-					} catch(exception) {
-						if(exception instanceof Exception) result.exceptions.push(exception)
-						else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
-					}
+					result.teachers?.push(teacher as Teacher)
+				} catch(exception) {
+					if(exception instanceof Exception) result.exceptions.push(exception)
+					else result.exceptions.push(new JavaScriptException('parseTeachers', `${exception}`))
 				}
 			}
 		} catch(exception) {
 			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
+			else result.exceptions.push(new JavaScriptException('parseTeachers', `${exception}`))
 		}
 		
-		if(result.absences?.length === 0) result.absences = undefined
-		if(result.absenceReports?.length === 0) result.absenceReports = undefined
-		if(result.openAbsences?.length === 0) result.openAbsences = undefined
-		if(result.lateAbsences?.length === 0) result.lateAbsences = undefined
+		if(result.teachers?.length === 0) result.teachers = undefined
 		
 		return result
 	},
 	
-	parseGrades(content: string): GradesParserResult {
-		const result = new GradesParserResult()
+	parseStudents(content: string): StudentsParserResult {
+		const result = new StudentsParserResult()
+		const ids = new ContentIdGenerator()
 		
 		try {
-			assertError(!!content, new ParserException('parseGrades', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
-		
-			let dom: DOMObject | undefined
-		
-			// TODO: Error handling
-			dom = DOMObject.parse(content)
-		
-			assertError(!!dom, new ParserException('parseGrades', `!!dom (was ${undefined})`))
-		
-			dom = dom as DOMObject
+			assertError(!!content, new ParserException('parseStudents', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
 		
-			const subjectRows = dom.querySelector('#uebersicht_bloecke > page > div > table > tbody > tr')
+			const rows = CsvReader.parse(content)
 		
-			assertFatal(!!subjectRows, new ParserException('parseGrades', `!!subjectRows (was ${undefined})`))
-			assertFatal(subjectRows.length >= 1, new ParserException('parseGrades', `subjectRows.length >= 1 (was ${subjectRows.length})`))
-			for(let i = 0; i < subjectRows.length; i++) assertFatal(!!subjectRows[i], new ParserException('parseGrades', `!!subjectRows[${i}] (was ${undefined})`))
+			assertFatal(rows.length > 0, new ParserException('parseStudents', `rows.length > 0 (was ${rows.length})`))
 		
-			subjectRows.shift()
+			const columns = CsvReader.mapColumns('parseStudents', rows.shift() as string[], StudentCsvColumns, ['lastName', 'firstName', 'zip'])
 		
-			for(let subjectRowIndex = 0; subjectRowIndex < subjectRows.length; subjectRowIndex++) {
+			let row: string[] | undefined
+			while((row = rows.shift()) != undefined) {
 				try {
-					const subjectRow = subjectRows[subjectRowIndex]
-					const subjectFields = subjectRow.querySelector('td')
-			
-					assertFatal(!!subjectFields, new ParserException('parseGrades', `!!subjectFields (was ${undefined})`))
-					assertFatal(subjectFields.length == 5, new ParserException('parseGrades', `subjectFields.length == 5 (was ${subjectFields.length})`))
-					for(let i = 0; i < subjectFields.length; i++) assertFatal(!!subjectFields[i], new ParserException('parseGrades', `!!subjectFields[${i}] (was ${undefined})`))
-			
-					const subject: Partial<Subject> = {}
-			
-					subject.id = generateUUID()
-			
-					const b = subjectFields[0].querySelector('b')
-					assertFatal(!!b, new ParserException('parseGrades', `!!b (was ${undefined})`))
-					assertFatal(b.length == 1, new ParserException('parseGrades', `b.length == 1 (was ${b.length})`))
-					for(let i = 0; i < b.length; i++) assertFatal(!!b[i], new ParserException('parseGrades', `!!b[${i}] (was ${undefined})`))
-			
-					subject.abbreviation = b[0].innerText()?.trim()
-					assertFatal(subject.abbreviation != undefined, new ParserException('parseGrades', `subject.abbreviation != undefined (was ${undefined})`))
-			
-					subject.name = subjectFields[0].innerText()?.trim()
-					assertFatal(subject.name != undefined, new ParserException('parseGrades', `subject.name != undefined (was ${undefined})`))
+					const student: Partial<Student> = {}
 			
-					subject.hiddenGrades = subjectFields[1].innerText()?.includes('*') ?? false
+					student.lastName = CsvReader.column(row, columns.lastName)
+					student.firstName = CsvReader.column(row, columns.firstName)
 			
-					const a = subjectFields[3].querySelector('a')
-					assertFatal(!!a, new ParserException('parseGrades', `!!a (was ${undefined})`))
+					switch(CsvReader.column(row, columns.gender)) {
+						case 'm':
+							student.gender = '♂'
+							break
+						case 'w':
+							student.gender = '♀'
+							break
+						default:
+							student.gender = '⚧'
+							break
+					}
 			
-					subject.gradesConfirmed = a.length <= 0
+					student.degree = CsvReader.column(row, columns.degree)
+					student.bilingual = CsvReader.column(row, columns.bilingual) === 'b'
+					student.clazz = CsvReader.column(row, columns.clazz)
+					student.address = CsvReader.column(row, columns.address)
 			
-					result.subjects?.push(subject as Subject)
+					student.zip = parseInt(CsvReader.column(row, columns.zip))
+					assertError(!isNaN(student.zip), new ParserException('parseStudents', `!isNaN(student.zip) (was ${NaN})`))
 			
-					let gradesRow: DOMObject[]
-					const gradeRows: DOMObject[] = []
-					while(subjectRowIndex + 1 < subjectRows.length && subjectRows[subjectRowIndex + 1].getAttribute('class')?.includes('detailrow')) {
-						subjectRowIndex++
-				
-						if((gradesRow = subjectRows[subjectRowIndex].querySelector('table')) && gradesRow.length == 1 && gradesRow[0]) {
-							const rows = gradesRow[0].querySelector('tr')
-					
-							assertFatal(!!rows, new ParserException('parseGrades', `!!rows (was ${undefined})`))
-							gradeRows.push(...rows)
-						}
-					}
+					student.city = CsvReader.column(row, columns.city)
+					student.phone = CsvReader.column(row, columns.phone)
+					student.additionalClass = CsvReader.column(row, columns.additionalClass)
+					student.status = CsvReader.column(row, columns.status)
 			
-					if(gradeRows.length > 0) {
-						assertFatal(gradeRows.length >= 2, new ParserException('parseGrades', `gradeRows.length >= 2 (was ${gradeRows.length})`))
-						for(let i = 0; i < gradeRows.length; i++) assertFatal(!!gradeRows[i], new ParserException('parseGrades', `!!gradeRows[${i}] (was ${undefined})`))
-				
-						gradeRows.shift()
-				
-						let gradeTotal = 0
-						let weightTotal = 0
-				
-						for(let gradeRowIndex = 0; gradeRowIndex < gradeRows.length; gradeRowIndex++) {
-							try {
-								const gradeRow = gradeRows[gradeRowIndex]
-								const gradeFields = gradeRow.querySelector('td')
-					
-								assertFatal(!!gradeFields, new ParserException('parseGrades', `!!gradeFields (was ${undefined})`))
-								if(gradeFields.length == 2 && gradeRowIndex + 1 == gradeRows.length) continue
-								assertFatal(gradeFields.length == 4, new ParserException('parseGrades', `gradeFields.length == 4 (was ${gradeFields.length})`))
-								for(let i = 0; i < gradeFields.length; i++) assertFatal(!!gradeFields[i], new ParserException('parseGrades', `!!gradeFields[${i}] (was ${undefined})`))
-					
-								const grade: Partial<Grade> = {}
-					
-								grade.id = generateUUID()
-					
-								grade.subjectId = subject.id
-					
-								const gradeDateHTML = gradeFields[0].innerText()?.trim()
-								if(gradeDateHTML) {
-									grade.date = parseDate(`${gradeDateHTML}`, 'dd.MM.yyyy')
-									assertWarn(!!grade.date, new ParserException('parseGrades', `!!grade.date (was ${undefined})`))
-								}
-					
-								grade.topic = gradeFields[1].innerText()?.trim()
-								assertFatal(grade.topic != undefined, new ParserException('parseGrades', `grade.topic (was ${undefined})`))
-					
-								const gradeHTML = gradeFields[2].innerText()?.trim()
-								grade.grade = gradeHTML ? parseFloat(gradeHTML) : undefined
-								if(grade.grade != undefined && isNaN(grade.grade)) grade.grade = undefined
-					
-								const detailsDiv = gradeFields[2].querySelector('div')
-								if(detailsDiv && detailsDiv.length == 1 && detailsDiv[0]) grade.details = detailsDiv[0].innerText()?.trim()
-					
-								grade.weight = parseFloat(gradeFields[3].innerText()?.trim())
-								assertFatal(!isNaN(grade.weight), new ParserException('parseGrades', `!isNaN(grade.weight) (was ${NaN})`))
-					
-								if(grade.grade) {
-									const weight = grade.weight ?? 1
-									gradeTotal += grade.grade * weight
-									weightTotal += weight
-								}
-					
-								result.grades?.push(grade as Grade)
-							} catch(exception) {
-								if(exception instanceof Exception) result.exceptions.push(exception)
-								else result.exceptions.push(new JavaScriptException('parseGrades', `${exception}`))
-							}
-						}
-				
-						subject.average = weightTotal > 0 ? gradeTotal / weightTotal : undefined
-					}
+					student.id = ids.generate(ObjectType.STUDENT, student)
 			
-					if(subjectRowIndex + 1 < subjectRows.length && subjectRows[subjectRowIndex + 1].getAttribute('id')?.includes('schueleruebersicht_verlauf')) subjectRowIndex++
+					result.students?.push(student as Student)
 				} catch(exception) {
 					if(exception instanceof Exception) result.exceptions.push(exception)
-					else result.exceptions.push(new JavaScriptException('parseGrades', `${exception}`))
+					else result.exceptions.push(new JavaScriptException('parseStudents', `${exception}`))
 				}
 			}
 		} catch(exception) {
 			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('parseGrades', `${exception}`))
+			else result.exceptions.push(new JavaScriptException('parseStudents', `${exception}`))
 		}
 		
-		if(result.subjects?.length === 0) result.subjects = undefined
-		if(result.grades?.length === 0) result.grades = undefined
+		if(result.students?.length === 0) result.students = undefined
 		
 		return result
 	},
 	
-	parseSchedule(content: string): ScheduleParserResult {
-		const result = new ScheduleParserResult()
+	parseTransactions(content: string): TransactionsParserResult {
+		const result = new TransactionsParserResult()
+		const ids = new ContentIdGenerator()
 		
 		try {
-			assertError(!!content, new ParserException('parseSchedule', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
+			assertError(!!content, new ParserException('parseTransaction', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
 		
 			let dom: DOMObject | undefined
 		
 			// TODO: Error handling
 			dom = DOMObject.parse(content)
 		
-			assertError(!!dom, new ParserException('parseSchedule', `!!dom (was ${undefined})`))
+			assertError(!!dom, new ParserException('parseTransactions', `!!dom (was ${undefined})`))
+		
+			dom = dom as DOMObject
+		
+			const tables = dom.querySelector('#content-card > table')
+		
+			assertFatal(!!tables, new ParserException('parseTransactions', `!!tables (was ${undefined})`))
+			assertFatal(tables.length == 2, new ParserException('parseTransactions', `tables.length == 2 (was ${tables.length})`))
+			assertFatal(!!tables[0], new ParserException('parseTransactions', `!!tables[0] (was ${undefined})`))
+			assertFatal(!!tables[1], new ParserException('parseTransactions', `!!tables[1] (was ${undefined})`))
+			
+			const nameTable = tables[0]
+			
+			const nameRows = nameTable.querySelector('tr')
+			
+			assertFatal(nameRows.length == 2, new ParserException('parseTransactions', `nameRows.length == 2 (was ${nameRows.length})`))
+			
+			const lastNameFields = nameRows[0].querySelector('td')
+			
+			assertFatal(lastNameFields.length == 2, new ParserException('parseTransactions', `lastNameFields.length == 2 (was ${lastNameFields.length})`))
+			
+			result.lastName = lastNameFields[1].innerText().trim()
+			
+			const firstNameFields = nameRows[1].querySelector('td')
+			
+			assertFatal(firstNameFields.length == 2, new ParserException('parseTransactions', `firstNameFields.length == 2 (was ${firstNameFields.length})`))
+		
+			result.firstName = firstNameFields[1].innerText().trim()
+			
+			const table = tables[1]
+		
+			const rows = table.querySelector('tr')
+		
+			assertFatal(!!rows, new ParserException('parseTransactions', `!!rows (was ${undefined})`))
+			assertFatal(rows.length >= 2, new ParserException('parseTransactions', `rows.length >= 2 (was ${rows.length})`))
+		
+			rows.shift()
+			rows.pop()
+		
+			for(let i = 0; i < rows.length; i++) {
+				if(!rows[i]) {
+					rows.splice(i, 1)
+					i--
+				}
+			}
+		
+			for(const row of rows) {
+				try {
+					const fields = row.querySelector('td')
+			
+					assertFatal(!!fields, new ParserException('parseTransactions', `!!fields (was ${undefined})`))
+					assertFatal(fields.length == 4, new ParserException('parseTransactions', `fields.length == 4 (was ${fields.length})`))
+					for(let i = 0; i < fields.length; i++) assertFatal(!!fields[i], new ParserException('parseTransactions', `!!fields[${i}] (was ${undefined})`))
+			
+					const transaction: Partial<Transaction> = {}
+			
+					const dateHTML = fields[0].innerText()?.trim()
+					assertFatal(!!dateHTML, new ParserException('parseTransactions', `!!dateHTML (was ${dateHTML != undefined ? '\'\'' : undefined})`))
+					transaction.date = parseDate(dateHTML, 'dd.MM.yyyy')
+			
+					transaction.reason = fields[1].innerText()?.trim()
+					assertFatal(!!transaction.reason, new ParserException('parseTransactions', `!!transaction.reason (was ${transaction.reason != undefined ? '\'\'' : undefined})`))
+			
+					const amountElement = fields[2].querySelector('span')
+					assertFatal(!!amountElement, new ParserException('parseTransactions', `!!amountElement (was ${undefined})`))
+					assertFatal(amountElement.length == 1, new ParserException('parseTransactions', `amountElement.length == 4 (was ${amountElement.length})`))
+					assertFatal(!!amountElement[0], new ParserException('parseTransactions', `!!amountElement[0] (was ${undefined})`))
+			
+					const amountHTML = amountElement[0].innerText()?.trim()
+					assertFatal(!!amountHTML, new ParserException('parseTransactions', `!!amountHTML (was ${amountHTML != undefined ? '\'\'' : undefined})`))
+					transaction.amount = parseFloat(amountHTML)
+					assertFatal(!isNaN(transaction.amount), new ParserException('parseTransactions', `!isNaN(transaction.amount) (was ${NaN})`))
+			
+					transaction.id = ids.generate(ObjectType.TRANSACTION, transaction)
+			
+					result.transactions?.push(transaction as Transaction)
+				} catch(exception) {
+					if(exception instanceof Exception) result.exceptions.push(exception)
+					else result.exceptions.push(new JavaScriptException('parseTransactions', `${exception}`))
+				}
+			}
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('parseTransactions', `${exception}`))
+		}
+		
+		if(result.transactions?.length === 0) result.transactions = undefined
+		
+		return result
+	},
+	
+	parseAbsences(content: string): AbsencesParserResult {
+		const result = new AbsencesParserResult()
+		const ids = new ContentIdGenerator()
+		
+		try {
+			assertError(!!content, new ParserException('parseAbsences', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
+		
+			let dom: DOMObject | undefined
+		
+			// TODO: Error handling
+			dom = DOMObject.parse(content)
+		
+			assertError(!!dom, new ParserException('parseAbsences', `!!dom (was ${undefined})`))
+		
+			dom = dom as DOMObject
+		
+			const tables = dom.querySelector('#uebersicht_bloecke > page > div > table')
+		
+			assertFatal(!!tables, new ParserException('parseAbsences', `!!tables (was ${undefined})`))
+			assertFatal(tables.length == 1 || tables.length == 2, new ParserException('parseAbsences', `tables.length == 1 || tables.length == 2 (was ${tables.length})`))
+			for(let i = 0; i < tables.length; i++) assertFatal(!!tables[i], new ParserException('parseAbsences', `!!tables[${i}] (was ${undefined})`))
+		
+			const absenceRows = tables[0].querySelector('table.mdl-data-table > tbody > tr')
+		
+			assertFatal(!!absenceRows, new ParserException('parseAbsences', `!!absenceRows (was ${undefined})`))
+		
+			if(absenceRows.length > 0 && absenceRows[absenceRows.length - 1].querySelector('button').length > 0) absenceRows.pop()
+		
+			assertFatal(absenceRows.length >= 3, new ParserException('parseAbsences', `absenceRows.length >= 3 (was ${absenceRows.length})`))
+			assertFatal((absenceRows.length - 3) % 2 == 0, new ParserException('parseAbsences', `(absenceRows.length - 3) % 2 == 0 (was ${absenceRows.length})`))
+		
+			absenceRows.shift()
+			absenceRows.pop()
+			absenceRows.pop()
+		
+			for(let i = 0; i < absenceRows.length; i++) {
+				if(!absenceRows[i]) {
+					absenceRows.splice(i, 1)
+					i--
+				}
+			}
+		
+			for(let absenceRowIndex = 0; absenceRowIndex < absenceRows.length; absenceRowIndex++) {
+				try {
+					const absenceRow = absenceRows[absenceRowIndex]
+					const absenceFields = absenceRow.querySelector('td')
+			
+					assertFatal(!!absenceFields, new ParserException('parseAbsences', `!!absenceFields (was ${undefined})`))
+					assertFatal(absenceFields.length == 7, new ParserException('parseAbsences', `absenceFields.length == 7 (was ${absenceFields.length})`))
+					for(let i = 0; i < absenceFields.length; i++) assertFatal(!!absenceFields[i], new ParserException('parseAbsences', `!!absenceFields[${i}] (was ${undefined})`))
+			
+					const absence: Partial<Absence> = {}
+			
+					const absenceFromDateHTML = absenceFields[0].innerText()?.trim()
+					assertFatal(!!absenceFromDateHTML, new ParserException('parseAbsences', `!!absenceFromDateHTML (was ${absenceFromDateHTML != undefined ? '\'\'' : undefined})`))
+					const absenceToDateHTML = absenceFields[1].innerText()?.trim()
+					assertFatal(!!absenceToDateHTML, new ParserException('parseAbsences', `!!absenceToDateHTML (was ${absenceToDateHTML != undefined ? '\'\'' : undefined})`))
+			
+					absence.startDate = parseDate(absenceFromDateHTML, 'dd.MM.yyyy')
+					assertFatal(!!absence.startDate, new ParserException('parseAbsences', `!!absence.startDate (was ${undefined})`))
+					absence.endDate = parseDate(absenceToDateHTML, 'dd.MM.yyyy')
+					assertFatal(!!absence.endDate, new ParserException('parseAbsences', `!!absence.endDate (was ${undefined})`))
+			
+					absence.reason = absenceFields[2].innerText()?.trim()
+					assertFatal(absence.reason != undefined, new ParserException('parseAbsences', `absence.reason (was ${undefined})`))
+			
+					absence.additionalInfo = absenceFields[3].innerText()?.trim()
+					assertFatal(absence.additionalInfo != undefined, new ParserException('parseAbsences', `absence.additionalInfo (was ${undefined})`))
+			
+					absence.deadline = absenceFields[4].innerText()?.trim()
+					assertFatal(absence.deadline != undefined, new ParserException('parseAbsences', `absence.deadline (was ${undefined})`))
+			
+					const excused = absenceFields[5].innerText()?.trim()
+					assertFatal(excused != undefined, new ParserException('parseAbsences', `excused (was ${undefined})`))
+					absence.excused = excused === 'Ja'
+			
+					const lessonCount = absenceFields[6].innerText()?.trim()
+					assertFatal(lessonCount != undefined, new ParserException('parseAbsences', `lessonCount (was ${undefined})`))
+					absence.lessonCount = parseInt(lessonCount)
+					assertFatal(!isNaN(absence.lessonCount), new ParserException('parseAbsences', `!isNaN(absence.lessonCount) (was ${NaN})`))
+			
+					absence.id = ids.generate(ObjectType.ABSENCE, absence)
+			
+					result.absences?.push(absence as Absence)
+			
+					let reportsTable: DOMObject
+					if(absenceRowIndex + 1 < absenceRows.length && ([ reportsTable ] = absenceRows[absenceRowIndex + 1].querySelector('tr table')) && reportsTable) {
+						absenceRowIndex++
+				
+						const absenceReportRows = reportsTable.querySelector('tr')
+				
+						assertFatal(!!absenceReportRows, new ParserException('parseAbsences', `!!absenceReportRows (was ${undefined})`))
+						assertFatal(absenceReportRows.length >= 2, new ParserException('parseAbsences', `absenceReportRows.length >= 2 (was ${absenceReportRows.length})`))
+						for(let i = 0; i < absenceReportRows.length; i++) assertFatal(!!absenceReportRows[i], new ParserException('parseAbsences', `!!absenceReportRows[${i}] (was ${undefined})`))
+				
+						absenceReportRows.shift()
+						absenceReportRows.shift()
+				
+						for(let absenceReportRowIndex = 0; absenceReportRowIndex < absenceReportRows.length; absenceReportRowIndex++) {
+							try {
+								const absenceReportRow = absenceReportRows[absenceReportRowIndex]
+								const absenceReportFields = absenceReportRow.querySelector('td')
+					
+								assertFatal(!!absenceReportFields, new ParserException('parseAbsences', `!!absenceReportFields (was ${undefined})`))
+								assertFatal(absenceReportFields.length == 4, new ParserException('parseAbsences', `absenceReportFields.length == 7 (was ${absenceReportFields.length})`))
+								for(let i = 0; i < absenceReportFields.length; i++) assertFatal(!!absenceReportFields[i], new ParserException('parseAbsences', `!!absenceReportFields[${i}] (was ${undefined})`))
+					
+								const absenceReport: Partial<AbsenceReport> = {}
+					
+								absenceReport.absenceId = absence.id
+					
+								const absenceReportDateHTML = absenceReportFields[0].innerText()?.trim()
+								assertFatal(!!absenceReportDateHTML, new ParserException('parseAbsences', `!!absenceReportDateHTML (was ${absenceReportDateHTML != undefined ? '\'\'' : undefined})`))
+					
+								const absenceReportTimeHTML = absenceReportFields[1].innerText()?.trim()
+								assertFatal(!!absenceReportTimeHTML, new ParserException('parseAbsences', `!!absenceReportTimeHTML (was ${absenceReportTimeHTML != undefined ? '\'\'' : undefined})`))
+								const [ absenceReportStartTime, absenceReportEndTime ] = absenceReportTimeHTML.split('bis').map(str => str.trim())
+								assertFatal(!!absenceReportStartTime, new ParserException('parseAbsences', `!!absenceReportStartTime (was ${absenceReportStartTime != undefined ? '\'\'' : undefined})`))
+								assertFatal(!!absenceReportEndTime, new ParserException('parseAbsences', `!!absenceReportEndTime (was ${absenceReportEndTime != undefined ? '\'\'' : undefined})`))
+					
+								absenceReport.startDate = parseDate(`${absenceReportDateHTML} ${absenceReportStartTime}`, 'dd.MM.yyyy HH:mm')
+								assertFatal(!!absenceReport.startDate, new ParserException('parseAbsences', `!!absenceReport.startDate (was ${undefined})`))
+					
+								absenceReport.endDate = parseDate(`${absenceReportDateHTML} ${absenceReportEndTime}`, 'dd.MM.yyyy HH:mm')
+								assertFatal(!!absenceReport.endDate, new ParserException('parseAbsences', `!!absenceReport.endDate (was ${undefined})`))
+					
+								absenceReport.lessonAbbreviation = absenceReportFields[2].innerText()?.trim()
+								assertFatal(absenceReport.lessonAbbreviation != undefined, new ParserException('parseAbsences', `absenceReport.lessonAbbreviation (was ${undefined})`))
+					
+								absenceReport.comment = absenceReportFields[3].innerText()?.trim()
+								assertFatal(absenceReport.comment != undefined, new ParserException('parseAbsences', `absenceReport.comment (was ${undefined})`))
+					
+								absenceReport.id = ids.generate(ObjectType.ABSENCE_REPORT, absenceReport, absence.id)
+					
+								result.absenceReports?.push(absenceReport as AbsenceReport)
+							} catch(exception) {
+								if(exception instanceof Exception) result.exceptions.push(exception)
+								else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
+							}
+						}
+					}
+				} catch(exception) {
+					if(exception instanceof Exception) result.exceptions.push(exception)
+					else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
+				}
+			}
+		
+			const openAbsencesForms = dom.querySelector('#uebersicht_bloecke > page form')
+			
+			if(openAbsencesForms.length == 1 && openAbsencesForms[0].getAttribute('action')) {
+				const form = openAbsencesForms[0]
+				
+				result.excuseForm = { action: form.getAttribute('action'), fields: {}, selections: {} }
+				
+				for(const input of form.querySelector('input[type=hidden]')) {
+					const name = input.getAttribute('name')
+					if(name) result.excuseForm.fields[name] = input.getAttribute('value') ?? ''
+				}
+				
+				const [ reasonSelect ] = form.querySelector('select')
+				const [ reasonInput ] = form.querySelector('input[type=text]')
+				const [ commentTextArea ] = form.querySelector('textarea')
+				
+				if(reasonSelect) {
+					result.excuseForm.reasonField = reasonSelect.getAttribute('name') || undefined
+					result.excuseForm.reasons = {}
+					
+					for(const option of reasonSelect.querySelector('option')) {
+						const value = option.getAttribute('value')
+						if(value) result.excuseForm.reasons[option.innerText()?.trim()] = value
+					}
+				} else if(reasonInput) {
+					result.excuseForm.reasonField = reasonInput.getAttribute('name') || undefined
+				}
+				
+				if(commentTextArea) result.excuseForm.commentField = commentTextArea.getAttribute('name') || undefined
+			}
+		
+			const openAbsencesTables = dom.querySelector('#uebersicht_bloecke > page form > table')
+		
+			assertFatal(!!openAbsencesTables, new ParserException('parseAbsences', `!!openAbsencesTables (was ${undefined})`))
+			assertFatal(openAbsencesTables.length == 1, new ParserException('parseAbsences', `openAbsencesTables.length == 1 (was ${openAbsencesTables.length})`))
+			for(let i = 0; i < openAbsencesTables.length; i++) assertFatal(!!openAbsencesTables[i], new ParserException('parseAbsences', `!!openAbsencesTables[${i}] (was ${undefined})`))
+		
+			const openAbsenceRows = openAbsencesTables[0].querySelector('tr')
+		
+			assertFatal(!!openAbsenceRows, new ParserException('parseAbsences', `!!openAbsenceRows (was ${undefined})`))
+			assertFatal(openAbsenceRows.length >= 3, new ParserException('parseAbsences', `openAbsenceRows.length >= 3 (was ${openAbsenceRows.length})`))
+		
+			openAbsenceRows.shift()
+			openAbsenceRows.pop()
+			openAbsenceRows.pop()
+		
+			for(let i = 0; i < openAbsenceRows.length; i++) {
+				if(!openAbsenceRows[i]) {
+					openAbsenceRows.splice(i, 1)
+					i--
+				}
+			}
+		
+			for(const openAbsenceRow of openAbsenceRows) {
+				try {
+					const openAbsenceFields = openAbsenceRow.querySelector('td')
+			
+					assertFatal(!!openAbsenceFields, new ParserException('parseAbsences', `!!openAbsenceFields (was ${undefined})`))
+					assertFatal(openAbsenceFields.length == 4, new ParserException('parseAbsences', `openAbsenceFields.length == 4 (was ${openAbsenceFields.length})`))
+					for(let i = 0; i < openAbsenceFields.length; i++) assertFatal(!!openAbsenceFields[i], new ParserException('parseAbsences', `!!openAbsenceFields[${i}] (was ${undefined})`))
+			
+					const openAbsence: Partial<OpenAbsence> = {}
+			
+					const openAbsenceDateHTML = openAbsenceFields[0].innerText()?.trim()
+					assertFatal(!!openAbsenceDateHTML, new ParserException('parseAbsences', `!!openAbsenceDateHTML (was ${openAbsenceDateHTML != undefined ? '\'\'' : undefined})`))
+					const openAbsenceTimeHTML = openAbsenceFields[1].innerText()?.trim()
+					assertFatal(!!openAbsenceTimeHTML, new ParserException('parseAbsences', `!!openAbsenceTimeHTML (was ${openAbsenceTimeHTML != undefined ? '\'\'' : undefined})`))
+					assertFatal(Array.from(openAbsenceTimeHTML.matchAll(/-/g)).length == 1, new ParserException('parseAbsences', `Array.from(openAbsenceTimeHTML.matchAll(/-/g)).length == 1 (was ${Array.from(openAbsenceTimeHTML.matchAll(/-/g)).length})`))
+					const [ openAbsenceFromTime, openAbsenceToTime ] = openAbsenceTimeHTML.split('-').map(str => str.trim())
+					openAbsence.startDate = parseDate(`${openAbsenceDateHTML} ${openAbsenceFromTime}`, 'dd.MM.yyyy HH:mm')
+					assertFatal(!!openAbsence.startDate, new ParserException('parseAbsences', `!!openAbsence.startDate (was ${undefined})`))
+					openAbsence.endDate = parseDate(`${openAbsenceDateHTML} ${openAbsenceToTime}`, 'dd.MM.yyyy HH:mm')
+					assertFatal(!!openAbsence.endDate, new ParserException('parseAbsences', `!!openAbsence.endDate (was ${undefined})`))
+			
+					openAbsence.lessonAbbreviation = openAbsenceFields[2].innerText()?.trim()
+					assertFatal(openAbsence.lessonAbbreviation != undefined, new ParserException('parseAbsences', `openAbsence.lessonAbbreviation (was ${undefined})`))
+			
+					openAbsence.id = ids.generate(ObjectType.OPEN_ABSENCE, openAbsence)
+			
+					const [ checkbox ] = openAbsenceFields[3].querySelector('input[type=checkbox]')
+					if(checkbox && checkbox.getAttribute('name') && result.excuseForm) result.excuseForm.selections[openAbsence.id] = [ checkbox.getAttribute('name'), checkbox.getAttribute('value') ?? 'on' ]
+			
+					result.openAbsences?.push(openAbsence as OpenAbsence)
+				} catch(exception) {
+					if(exception instanceof Exception) result.exceptions.push(exception)
+					else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
+				}
+			}
+		
+			if(tables.length == 2) {
+				const lateAbsenceTableRows = tables[1].querySelector('tr')
+			
+				assertFatal(!!lateAbsenceTableRows, new ParserException('parseAbsences', `!!lateAbsenceTableRows (was ${undefined})`))
+				assertFatal(lateAbsenceTableRows.length >= 3, new ParserException('parseAbsences', `lateAbsenceTableRows.length >= 3 (was ${lateAbsenceTableRows.length})`))
+			
+				lateAbsenceTableRows.shift()
+				lateAbsenceTableRows.pop()
+				lateAbsenceTableRows.pop()
+			
+				for(let i = 0; i < lateAbsenceTableRows.length; i++) {
+					if(!lateAbsenceTableRows[i]) {
+						lateAbsenceTableRows.splice(i, 1)
+						i--
+					}
+				}
+			
+				for(const lateAbsenceRow of lateAbsenceTableRows) {
+					try {
+						const lateAbsenceFields = lateAbsenceRow.querySelector('td')
+				
+						assertFatal(!!lateAbsenceFields, new ParserException('parseAbsences', `!!lateAbsenceFields (was ${undefined})`))
+						assertFatal(lateAbsenceFields.length == 5, new ParserException('parseAbsences', `lateAbsenceFields.length == 5 (was ${lateAbsenceFields.length})`))
+						for(let i = 0; i < lateAbsenceFields.length; i++) assertFatal(!!lateAbsenceFields[i], new ParserException('parseAbsences', `!!lateAbsenceFields[${i}] (was ${undefined})`))
+				
+						const lateAbsence: Partial<LateAbsence> = {}
+				
+						let lateAbsenceDateHTML = lateAbsenceFields[0].innerText()?.replaceAll('(*)', '')?.trim()
+						assertFatal(!!lateAbsenceDateHTML, new ParserException('parseAbsences', `!!lateAbsenceDateHTML (was ${lateAbsenceDateHTML != undefined ? '\'\'' : undefined})`))
+						const commaSeparated = lateAbsenceDateHTML.split(',')
+						assertFatal(commaSeparated.length == 2, new ParserException('parseAbsences', `commaSeparated.length == 2 (was ${commaSeparated.length})`))
+						lateAbsenceDateHTML = commaSeparated[1].trim()
+						const lateAbsenceTimeHTML = lateAbsenceFields[1].innerText()?.trim()
+						assertFatal(!!lateAbsenceTimeHTML, new ParserException('parseAbsences', `!!lateAbsenceTimeHTML (was ${lateAbsenceTimeHTML != undefined ? '\'\'' : undefined})`))
+						lateAbsence.date = parseDate(`${lateAbsenceDateHTML} ${lateAbsenceTimeHTML}`, 'dd.MM.yyyy HH:mm')
+						assertFatal(!!lateAbsence.date, new ParserException('parseAbsences', `!!lateAbsence.date (was ${undefined})`))
+				
+						lateAbsence.reason = lateAbsenceFields[2].innerText()?.trim()
+						assertFatal(lateAbsence.reason != undefined, new ParserException('parseAbsences', `lateAbsence.reason != undefined (was ${undefined})`))
+				
+						const timespan = lateAbsenceFields[3].innerText()?.trim()
+						assertFatal(!!timespan, new ParserException('parseAbsences', `!!timespan (was ${timespan != undefined ? '\'\'' : undefined})`))
+						lateAbsence.timespan = parseInt(timespan)
+						assertFatal(!isNaN(lateAbsence.timespan), new ParserException('parseAbsences', `!isNaN(lateAbsence.timespan) (was ${NaN})`))
+				
+						const excused = lateAbsenceFields[4].innerText()?.trim()
+						assertFatal(!!excused, new ParserException('parseAbsences', `!!excused (was ${excused != undefined ? '\'\'' : undefined})`))
+						lateAbsence.excused = excused === 'Ja'
+				
+						lateAbsence.id = ids.generate(ObjectType.LATE_ABSENCE, lateAbsence)
+				
+						result.lateAbsences?.push(lateAbsence as LateAbsence)
+					} catch(exception) {
+						if(exception instanceof Exception) result.exceptions.push(exception)
+						else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
+					}
+				}
+			}
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('parseAbsences', `${exception}`))
+		}
+		
+		if(result.absences?.length === 0) result.absences = undefined
+		if(result.absenceReports?.length === 0) result.absenceReports = undefined
+		if(result.openAbsences?.length === 0) result.openAbsences = undefined
+		if(result.lateAbsences?.length === 0) result.lateAbsences = undefined
+		
+		return result
+	},
+	
+	parseGrades(content: string): GradesParserResult {
+		const result = new GradesParserResult()
+		const ids = new ContentIdGenerator()
+		
+		try {
+			assertError(!!content, new ParserException('parseGrades', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
+		
+			let dom: DOMObject | undefined
+		
+			// TODO: Error handling
+			dom = DOMObject.parse(content)
+		
+			assertError(!!dom, new ParserException('parseGrades', `!!dom (was ${undefined})`))
+		
+			dom = dom as DOMObject
+		
+			const subjectRows = dom.querySelector('#uebersicht_bloecke > page > div > table > tbody > tr')
+		
+			assertFatal(!!subjectRows, new ParserException('parseGrades', `!!subjectRows (was ${undefined})`))
+			assertFatal(subjectRows.length >= 1, new ParserException('parseGrades', `subjectRows.length >= 1 (was ${subjectRows.length})`))
+			for(let i = 0; i < subjectRows.length; i++) assertFatal(!!subjectRows[i], new ParserException('parseGrades', `!!subjectRows[${i}] (was ${undefined})`))
+		
+			subjectRows.shift()
+		
+			for(let subjectRowIndex = 0; subjectRowIndex < subjectRows.length; subjectRowIndex++) {
+				try {
+					const subjectRow = subjectRows[subjectRowIndex]
+					const subjectFields = subjectRow.querySelector('td')
+			
+					assertFatal(!!subjectFields, new ParserException('parseGrades', `!!subjectFields (was ${undefined})`))
+					assertFatal(subjectFields.length == 5, new ParserException('parseGrades', `subjectFields.length == 5 (was ${subjectFields.length})`))
+					for(let i = 0; i < subjectFields.length; i++) assertFatal(!!subjectFields[i], new ParserException('parseGrades', `!!subjectFields[${i}] (was ${undefined})`))
+			
+					const subject: Partial<Subject> = {}
+			
+					const b = subjectFields[0].querySelector('b')
+					assertFatal(!!b, new ParserException('parseGrades', `!!b (was ${undefined})`))
+					assertFatal(b.length == 1, new ParserException('parseGrades', `b.length == 1 (was ${b.length})`))
+					for(let i = 0; i < b.length; i++) assertFatal(!!b[i], new ParserException('parseGrades', `!!b[${i}] (was ${undefined})`))
+			
+					subject.abbreviation = b[0].innerText()?.trim()
+					assertFatal(subject.abbreviation != undefined, new ParserException('parseGrades', `subject.abbreviation != undefined (was ${undefined})`))
+			
+					subject.name = subjectFields[0].innerText()?.trim()
+					assertFatal(subject.name != undefined, new ParserException('parseGrades', `subject.name != undefined (was ${undefined})`))
+			
+					subject.hiddenGrades = subjectFields[1].innerText()?.includes('*') ?? false
+			
+					const a = subjectFields[3].querySelector('a')
+					assertFatal(!!a, new ParserException('parseGrades', `!!a (was ${undefined})`))
+			
+					subject.gradesConfirmed = a.length <= 0
+			
+					subject.id = ids.generate(ObjectType.SUBJECT, subject)
+			
+					if(a.length > 0 && a[0].getAttribute('href')) result.confirmationUrls[subject.id] = a[0].getAttribute('href')
+			
+					result.subjects?.push(subject as Subject)
+			
+					let gradesRow: DOMObject[]
+					const gradeRows: DOMObject[] = []
+					while(subjectRowIndex + 1 < subjectRows.length && subjectRows[subjectRowIndex + 1].getAttribute('class')?.includes('detailrow')) {
+						subjectRowIndex++
+				
+						if((gradesRow = subjectRows[subjectRowIndex].querySelector('table')) && gradesRow.length == 1 && gradesRow[0]) {
+							const rows = gradesRow[0].querySelector('tr')
+					
+							assertFatal(!!rows, new ParserException('parseGrades', `!!rows (was ${undefined})`))
+							gradeRows.push(...rows)
+						}
+					}
+			
+					if(gradeRows.length > 0) {
+						assertFatal(gradeRows.length >= 2, new ParserException('parseGrades', `gradeRows.length >= 2 (was ${gradeRows.length})`))
+						for(let i = 0; i < gradeRows.length; i++) assertFatal(!!gradeRows[i], new ParserException('parseGrades', `!!gradeRows[${i}] (was ${undefined})`))
+				
+						gradeRows.shift()
+				
+						let gradeTotal = 0
+						let weightTotal = 0
+				
+						for(let gradeRowIndex = 0; gradeRowIndex < gradeRows.length; gradeRowIndex++) {
+							try {
+								const gradeRow = gradeRows[gradeRowIndex]
+								const gradeFields = gradeRow.querySelector('td')
+					
+								assertFatal(!!gradeFields, new ParserException('parseGrades', `!!gradeFields (was ${undefined})`))
+								if(gradeFields.length == 2 && gradeRowIndex + 1 == gradeRows.length) continue
+								assertFatal(gradeFields.length == 4, new ParserException('parseGrades', `gradeFields.length == 4 (was ${gradeFields.length})`))
+								for(let i = 0; i < gradeFields.length; i++) assertFatal(!!gradeFields[i], new ParserException('parseGrades', `!!gradeFields[${i}] (was ${undefined})`))
+					
+								const grade: Partial<Grade> = {}
+					
+								grade.subjectId = subject.id
+					
+								const gradeDateHTML = gradeFields[0].innerText()?.trim()
+								if(gradeDateHTML) {
+									grade.date = parseDate(`${gradeDateHTML}`, 'dd.MM.yyyy')
+									assertWarn(!!grade.date, new ParserException('parseGrades', `!!grade.date (was ${undefined})`))
+								}
+					
+								grade.topic = gradeFields[1].innerText()?.trim()
+								assertFatal(grade.topic != undefined, new ParserException('parseGrades', `grade.topic (was ${undefined})`))
+					
+								const gradeHTML = gradeFields[2].innerText()?.trim()
+								grade.grade = gradeHTML ? parseFloat(gradeHTML) : undefined
+								if(grade.grade != undefined && isNaN(grade.grade)) grade.grade = undefined
+					
+								const detailsDiv = gradeFields[2].querySelector('div')
+								if(detailsDiv && detailsDiv.length == 1 && detailsDiv[0]) grade.details = detailsDiv[0].innerText()?.trim()
+					
+								grade.weight = parseFloat(gradeFields[3].innerText()?.trim())
+								assertFatal(!isNaN(grade.weight), new ParserException('parseGrades', `!isNaN(grade.weight) (was ${NaN})`))
+					
+								if(grade.grade) {
+									const weight = grade.weight ?? 1
+									gradeTotal += grade.grade * weight
+									weightTotal += weight
+								}
+					
+								grade.id = ids.generate(ObjectType.GRADE, grade, subject.id)
+					
+								result.grades?.push(grade as Grade)
+							} catch(exception) {
+								if(exception instanceof Exception) result.exceptions.push(exception)
+								else result.exceptions.push(new JavaScriptException('parseGrades', `${exception}`))
+							}
+						}
+				
+						subject.average = weightTotal > 0 ? gradeTotal / weightTotal : undefined
+					}
+			
+					if(subjectRowIndex + 1 < subjectRows.length && subjectRows[subjectRowIndex + 1].getAttribute('id')?.includes('schueleruebersicht_verlauf')) subjectRowIndex++
+				} catch(exception) {
+					if(exception instanceof Exception) result.exceptions.push(exception)
+					else result.exceptions.push(new JavaScriptException('parseGrades', `${exception}`))
+				}
+			}
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('parseGrades', `${exception}`))
+		}
+		
+		if(result.subjects?.length === 0) result.subjects = undefined
+		if(result.grades?.length === 0) result.grades = undefined
+		
+		return result
+	},
+	
+	parseSchedule(content: string): ScheduleParserResult {
+		const result = new ScheduleParserResult()
+		const ids = new ContentIdGenerator()
+		
+		try {
+			assertError(!!content, new ParserException('parseSchedule', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
+		
+			let dom: DOMObject | undefined
+		
+			// TODO: Error handling
+			dom = DOMObject.parse(content)
+		
+			assertError(!!dom, new ParserException('parseSchedule', `!!dom (was ${undefined})`))
+		
+			dom = dom as DOMObject
+		
+			const events = dom.querySelector('data > event')
+		
+			assertFatal(!!events, new ParserException('parseSchedule', `!!events (was ${undefined})`))
+			
+			events.forEach(event => {
+				try {
+					const lesson: Partial<Lesson> = {}
+					
+					const startDate = event.querySelector('start_date')[0]?.innerText()
+					lesson.startDate = parseDate(startDate, `yyyy-MM-dd HH:mm${/:.*:/g.test(startDate) ? ':ss' : ''}`)
+					
+					const endDate = event.querySelector('end_date')[0]?.innerText()
+					lesson.endDate = parseDate(endDate, `yyyy-MM-dd HH:mm${/:.*:/g.test(endDate) ? ':ss' : ''}`)
+					
+					lesson.text = event.querySelector('text')[0]?.innerText()
+					lesson.comment = event.querySelector('kommentar')[0]?.innerText()
+					lesson.shortText = event.querySelector('fachkuerzel')[0]?.innerText()
+					lesson.subjectAbbreviation = event.querySelector('kurskuerzel')[0]?.innerText()
+					lesson.room = event.querySelector('zimmerkuerzel')[0]?.innerText()
+					lesson.color = event.querySelector('color')[0]?.innerText()
+					
+					lesson.id = ids.generate(ObjectType.LESSON, lesson)
+					
+					result.lessons?.push(lesson as Lesson)
+				} catch(exception) {
+					if(exception instanceof Exception) result.exceptions.push(exception)
+					else result.exceptions.push(new JavaScriptException('parseSchedule', `${exception}`))
+				}
+			})
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('parseSchedule', `${exception}`))
+		}
+		
+		if(result.lessons?.length === 0) result.lessons = undefined
+		
+		return result
+	},
+	
+	parseDocuments(content: string): DocumentsParserResult {
+		const result = new DocumentsParserResult()
+		
+		try {
+			assertError(!!content, new ParserException('parseDocuments', `!!content (was ${content != undefined ? '\'\'' : undefined})`))
+		
+			let dom: DOMObject | undefined
+		
+			// TODO: Error handling
+			dom = DOMObject.parse(content)
+		
+			assertError(!!dom, new ParserException('parseDocuments', `!!dom (was ${undefined})`))
+		
+			dom = dom as DOMObject
+		
+			const tables = dom.querySelector('#content-card > table')
+		
+			assertFatal(!!tables, new ParserException('parseDocuments', `!!tables (was ${undefined})`))
+			
+			// An empty document list is rendered without a table
+			if(tables.length == 0) {
+				result.documents = undefined
+				return result
+			}
+			
+			const rows = tables[0].querySelector('tr')
+			
+			assertFatal(rows.length >= 1, new ParserException('parseDocuments', `rows.length >= 1 (was ${rows.length})`))
+			
+			const header = rows[0].querySelector('th').map(field => field.innerText()?.trim().toLowerCase())
+			const dateIndex = header.findIndex(name => name === 'datum')
+			const titleIndex = header.findIndex(name => [ 'bezeichnung', 'titel', 'dokument' ].includes(name))
+			const categoryIndex = header.findIndex(name => [ 'kategorie', 'typ' ].includes(name))
+			
+			assertFatal(titleIndex >= 0, new ParserException('parseDocuments', `titleIndex >= 0 (was ${titleIndex})`))
+			
+			for(let i = 1; i < rows.length; i++) {
+				try {
+					const fields = rows[i].querySelector('td')
+					
+					assertFatal(fields.length == header.length, new ParserException('parseDocuments', `fields.length == header.length (was ${fields.length})`))
+					
+					const document: Partial<Document> = {}
+					
+					document.title = fields[titleIndex].innerText()?.trim()
+					assertFatal(!!document.title, new ParserException('parseDocuments', `!!document.title (was ${document.title})`))
+					
+					if(categoryIndex >= 0) document.category = fields[categoryIndex].innerText()?.trim() || undefined
+					
+					const dateHTML = dateIndex >= 0 ? fields[dateIndex].innerText()?.trim() : undefined
+					if(dateHTML) {
+						document.date = parseDate(dateHTML, 'dd.MM.yyyy')
+						assertWarn(!!document.date, new ParserException('parseDocuments', `!!document.date (was ${undefined})`))
+					}
+					
+					const links = rows[i].querySelector('a')
+					
+					assertFatal(links.length >= 1, new ParserException('parseDocuments', `links.length >= 1 (was ${links.length})`))
+					
+					document.url = links[0].getAttribute('href')
+					assertFatal(!!document.url, new ParserException('parseDocuments', `!!document.url (was ${document.url})`))
+					
+					// Documents are identified by SchulNetz, the transid in the link changes with every page load
+					const queryParameters = extractQueryParameters(document.url, 'https://localhost/')
+					document.id = queryParameters?.['docid'] ?? queryParameters?.['dokid'] ?? hashString(document.url.replace(/[?&](id|transid)=[^&]*/g, ''))
+					
+					result.documents?.push(document as Document)
+				} catch(exception) {
+					if(exception instanceof Exception) result.exceptions.push(exception)
+					else result.exceptions.push(new JavaScriptException('parseDocuments', `${exception}`))
+				}
+			}
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('parseDocuments', `${exception}`))
+		}
+		
+		if(result.documents?.length === 0) result.documents = undefined
+		
+		return result
+	},
+} as const
+
+/********\
+| Linker |
+\********/
+
+// TODO: Error handling + recovery
+
+class LinkResult extends User {
+	exceptions: Exception[] = []
+}
+
+/**************\
+| Sync Results |
+\**************/
+
+enum SyncSection {
+	TEACHERS,
+	STUDENTS,
+	TRANSACTIONS,
+	ABSENCES,
+	GRADES,
+	SCHEDULE,
+}
+
+enum SyncStatus {
+	Fresh,
+	Stale,
+	Missing,
+}
+
+class SyncResult extends LinkResult {
+	lessons: Lesson[] = []
+	// Only the lessons in this range are fetched, lessons outside of it are unknown rather than cancelled
+	scheduleRange?: DateRange
+	// The exceptions of the last attempt to sync each section, e.g. why it is missing
+	sectionExceptions: { [key in SyncSection]?: Exception[] } = {}
+	sections: { [key in SyncSection]: SyncStatus } = {
+		[SyncSection.TEACHERS]: SyncStatus.Missing,
+		[SyncSection.STUDENTS]: SyncStatus.Missing,
+		[SyncSection.TRANSACTIONS]: SyncStatus.Missing,
+		[SyncSection.ABSENCES]: SyncStatus.Missing,
+		[SyncSection.GRADES]: SyncStatus.Missing,
+		[SyncSection.SCHEDULE]: SyncStatus.Missing,
+	}
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function link(user: Partial<User>) {
+	const result = new LinkResult()
+	
+	const teacherTable: { [ key: string ]: Teacher } = {}
+	const subjectTable: { [ key: string ]: Subject } = {}
+	
+	const subjectIdTable = new Map<string, Subject>()
+	const absenceIdTable = new Map<string, Absence>()
+	
+	for(const teacher of user.teachers ?? []) {
+		teacherTable[teacher.abbreviation] = teacher
+	}
+	
+	for(const subject of user.subjects ?? []) {
+		try {
+			subjectTable[subject.abbreviation] = subject
+			subjectIdTable.set(subject.id, subject)
+		
+			assertFatal(!!subject.abbreviation, new LinkerException('Subjects', `!!subject.abbreviation (was ${subject.abbreviation != undefined ? '\'\'' : undefined})`))
+			const [ , , teacherAbbreviation ] = subject.abbreviation.split('-')
+			assertFatal(!!teacherAbbreviation, new LinkerException('Subjects', `!!teacherAbbreviation (was ${teacherAbbreviation != undefined ? '\'\'' : undefined})`))
+		
+			const teacher = teacherTable[teacherAbbreviation]
+			assertInfo(!!teacher, new LinkerException('Subjects', `!!teacher (was ${undefined})`))
+			if(teacher) subject.teacherId = teacher.id
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('link(Subjects)', `${exception}`))
+		}
+	}
+	
+	for(const openAbsence of user.openAbsences ?? []) {
+		try {
+			const subject = subjectTable[openAbsence.lessonAbbreviation]
+			assertInfo(!!subject, new LinkerException('OpenAbsences', `!!subject (was ${undefined})`))
+			if(subject) openAbsence.subjectId = subject.id
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('link(OpenAbsences)', `${exception}`))
+		}
+	}
+	
+	for(const absence of user.absences ?? []) absenceIdTable.set(absence.id, absence)
+	
+	for(const absenceReport of user.absenceReports ?? []) {
+		try {
+			const subject = subjectTable[absenceReport.lessonAbbreviation]
+			assertInfo(!!subject, new LinkerException('AbsenceReports', `!!subject (was ${undefined})`))
+			if(subject) absenceReport.subjectId = subject.id
+		} catch(exception) {
+			if(exception instanceof Exception) result.exceptions.push(exception)
+			else result.exceptions.push(new JavaScriptException('link(AbsenceReports)', `${exception}`))
+		}
+	}
+	
+	Object.assign(result, user)
+	
+	return result
+}
+
+/****************\
+| Action Results |
+\****************/
+
+class ActionResult {
+	exceptions: Exception[] = []
+}
+
+class GradeConfirmationResult extends ActionResult {
+	confirmed: Subject[] = []
+	pending: Subject[] = []
+	subjects?: Subject[]
+	
+	constructor(public dryRun: boolean) {
+		super()
+	}
+}
+
+class AbsenceExcuseResult extends ActionResult {
+	excused: OpenAbsence[] = []
+	pending: OpenAbsence[] = []
+	openAbsences?: OpenAbsence[]
+}
+
+/*********\
+| Diffing |
+\*********/
+
+enum ObjectType {
+	TEACHER,
+	STUDENT,
+	TRANSACTION,
+	ABSENCE,
+	ABSENCE_REPORT,
+	OPEN_ABSENCE,
+	LATE_ABSENCE,
+	SUBJECT,
+	GRADE,
+	LESSON,
+}
+
+type ObjectTypeMap = [Teacher, Student, Transaction, Absence, AbsenceReport, OpenAbsence, LateAbsence, Subject, Grade, Lesson]
+type AnyObjectType = Teacher & Student & Transaction & Absence & AbsenceReport & OpenAbsence & LateAbsence & Subject & Grade & Lesson
+
+type Snapshot = Partial<User & { lessons: Lesson[], scheduleRange: DateRange }>
+
+const IdenitityKeys: { [key in ObjectType]: (keyof ObjectTypeMap[key])[] } = {
+	[ObjectType.TEACHER]: ['lastName', 'firstName', 'abbreviation'],
+	[ObjectType.STUDENT]: ['lastName', 'firstName'],
+	[ObjectType.TRANSACTION]: ['date', 'reason'],
+	[ObjectType.ABSENCE]: ['startDate', 'endDate'],
+	[ObjectType.ABSENCE_REPORT]: ['startDate', 'endDate', 'lessonAbbreviation'],
+	[ObjectType.OPEN_ABSENCE]: ['startDate', 'endDate', 'lessonAbbreviation'],
+	[ObjectType.LATE_ABSENCE]: ['date', 'reason', 'timespan'],
+	[ObjectType.SUBJECT]: ['abbreviation'],
+	[ObjectType.GRADE]: ['date', 'topic'],
+	[ObjectType.LESSON]: ['startDate', 'endDate', 'subjectAbbreviation', 'text'],
+}
+
+// Parent relationships are part of an object's identity, other relationships are compared like regular keys
+const RelationshipKeys: { [key in ObjectType]: { key: keyof ObjectTypeMap[key], type: ObjectType, parent: boolean }[] } = {
+	[ObjectType.TEACHER]: [],
+	[ObjectType.STUDENT]: [],
+	[ObjectType.TRANSACTION]: [],
+	[ObjectType.ABSENCE]: [],
+	[ObjectType.ABSENCE_REPORT]: [{ key: 'absenceId', type: ObjectType.ABSENCE, parent: true }, { key: 'subjectId', type: ObjectType.SUBJECT, parent: false }],
+	[ObjectType.OPEN_ABSENCE]: [{ key: 'subjectId', type: ObjectType.SUBJECT, parent: false }],
+	[ObjectType.LATE_ABSENCE]: [],
+	[ObjectType.SUBJECT]: [{ key: 'teacherId', type: ObjectType.TEACHER, parent: false }],
+	[ObjectType.GRADE]: [{ key: 'subjectId', type: ObjectType.SUBJECT, parent: true }],
+	[ObjectType.LESSON]: [],
+}
+
+// Objects without a parent which may still be matched after their identity keys changed, as long as they stay in the same group
+const FuzzyMatchGroups: { [key in ObjectType]?: (object: ObjectTypeMap[key]) => string } = {
+	[ObjectType.LESSON]: lesson => `${lesson.subjectAbbreviation ?? lesson.text}\u0000${formatDate(lesson.startDate, 'yyyy-MM-dd')}`,
+}
+
+const SnapshotKeys: { [key in ObjectType]: keyof Snapshot } = {
+	[ObjectType.TEACHER]: 'teachers',
+	[ObjectType.STUDENT]: 'students',
+	[ObjectType.TRANSACTION]: 'transactions',
+	[ObjectType.ABSENCE]: 'absences',
+	[ObjectType.ABSENCE_REPORT]: 'absenceReports',
+	[ObjectType.OPEN_ABSENCE]: 'openAbsences',
+	[ObjectType.LATE_ABSENCE]: 'lateAbsences',
+	[ObjectType.SUBJECT]: 'subjects',
+	[ObjectType.GRADE]: 'grades',
+	[ObjectType.LESSON]: 'lessons',
+}
+
+class ContentIdGenerator {
+	private occurrences = new Map<string, number>()
+	
+	public generate<T extends ObjectType>(type: T, object: Partial<ObjectTypeMap[T]>, scope?: string) {
+		const key = [ type, scope ?? '', ...IdenitityKeys[type].map(identityKey => `${object[identityKey] ?? ''}`) ].join('\u0000')
+		
+		const occurrence = this.occurrences.get(key) ?? 0
+		this.occurrences.set(key, occurrence + 1)
+		
+		return hashString(key) + (occurrence > 0 ? `-${occurrence}` : '')
+	}
+}
+
+const same = (first: unknown, second: unknown) => {
+	if(typeof first != typeof second) return false
+	else if(first === second) return true
+	else if(typeof first === 'object' && typeof second === 'object' && first && second) {
+		if(!('$type' in first) || (first as { $type: unknown }).$type != (second as { $type: unknown }).$type || typeof (first as { $type: unknown }).$type in ObjectType || !((first as { $type: ObjectType }).$type in ObjectType)) return false
+		
+		for(const key of IdenitityKeys[(first as { $type: ObjectType }).$type]) {
+			if(!same((first as unknown as AnyObjectType)[key], (second as AnyObjectType)[key])) return false
+		}
+		
+		return true
+	} else return false
+}
+
+const CompareKeys: { [key in ObjectType]: (keyof ObjectTypeMap[key])[] } = {
+	[ObjectType.TEACHER]: ['email'],
+	[ObjectType.STUDENT]: ['gender', 'degree', 'bilingual', 'clazz', 'address', 'zip', 'city', 'phone', 'additionalClass', 'status'],
+	[ObjectType.TRANSACTION]: ['amount'],
+	[ObjectType.ABSENCE]: ['reason', 'additionalInfo', 'deadline', 'excused', 'lessonCount'],
+	[ObjectType.ABSENCE_REPORT]: ['comment'],
+	[ObjectType.OPEN_ABSENCE]: [],
+	[ObjectType.LATE_ABSENCE]: ['excused'],
+	[ObjectType.SUBJECT]: ['name', 'gradesConfirmed', 'hiddenGrades', 'average'],
+	[ObjectType.GRADE]: ['grade', 'details', 'weight'],
+	[ObjectType.LESSON]: ['shortText', 'room', 'comment', 'color'],
+}
+
+const equal = (first: unknown, second: unknown) => {
+	if(!same(first, second)) return false
+	else if(first == null) return true
+	else if(typeof first !== 'object') return true
+	
+	for(const key of CompareKeys[(first as { $type: ObjectType }).$type]) {
+		if(!equal((first as AnyObjectType)[key], (second as AnyObjectType)[key])) return false
+	}
+	
+	return true
+}
+
+// Encodes values so that two values get the same key exactly when same() considers them the same
+class IdentityKeyEncoder {
+	private references = new Map<unknown, number>()
+	private counter = 0
+	
+	public encode(value: unknown): string {
+		if(typeof value === 'object' && value && '$type' in value && (value as { $type: ObjectType }).$type in ObjectType) {
+			const type = (value as { $type: ObjectType }).$type
+			return `o${JSON.stringify([ type, ...IdenitityKeys[type].map(key => this.encode((value as unknown as AnyObjectType)[key])) ])}`
+		}
+		
+		if(typeof value === 'string') return `s${JSON.stringify(value)}`
+		if(typeof value === 'number' && isNaN(value)) return `r${this.counter++}`
+		if(value === null) return 'null'
+		if(typeof value === 'undefined' || typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') return `${typeof value}:${String(value)}`
+		
+		// Objects without identity keys, functions and symbols are only the same as themselves
+		let reference = this.references.get(value)
+		if(reference == undefined) {
+			reference = this.counter++
+			this.references.set(value, reference)
+		}
+		
+		return `r${reference}`
+	}
+}
+
+class DiffingResult<T> {
+	added: T[] = []
+	modified: [T, T][] = []
+	unchanged: [T, T][] = []
+	removed: T[] = []
+	
+	// Subset of modified containing the objects which now belong to a different parent
+	moved: [T, T][] = []
+}
+
+type SnapshotDiffingResult = { [key in ObjectType]: DiffingResult<ObjectTypeMap[key]> }
+
+const isSnapshot = (value: unknown): value is Snapshot => {
+	return !!value && typeof value === 'object' && !Array.isArray(value) && !('$type' in value) && Object.values(SnapshotKeys).some(key => Array.isArray((value as Snapshot)[key]))
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function diff(initial: Snapshot, updated: Snapshot): SnapshotDiffingResult
+function diff<T>(initial: T | T[], updated: T | T[]): DiffingResult<T>
+function diff<T>(initial: T | T[] | Snapshot, updated: T | T[] | Snapshot) {
+	if(isSnapshot(initial) && isSnapshot(updated)) return diffSnapshots(initial, updated)
+	
+	const result = new DiffingResult<T>()
+	
+	const firstArray = Array.isArray(initial) ? initial : [initial as T]
+	const secondArray = Array.isArray(updated) ? updated : [updated as T]
+	
+	const encoder = new IdentityKeyEncoder()
+	
+	// Indices of the updated objects grouped by identity, each bucket is consumed in order
+	const buckets = new Map<string, { indices: number[], next: number }>()
+	secondArray.forEach((second, secondIndex) => {
+		const key = encoder.encode(second)
+		
+		const bucket = buckets.get(key)
+		if(bucket) bucket.indices.push(secondIndex)
+		else buckets.set(key, { indices: [secondIndex], next: 0 })
+	})
+	
+	const matched = new Array<boolean>(secondArray.length).fill(false)
+	
+	for(const first of firstArray) {
+		const bucket = buckets.get(encoder.encode(first))
+		
+		if(!bucket || bucket.next >= bucket.indices.length) {
+			result.removed.push(first)
+			continue
+		}
+		
+		const secondIndex = bucket.indices[bucket.next++]
+		const second = secondArray[secondIndex]
+		matched[secondIndex] = true
+		
+		if(!equal(first, second)) result.modified.push([first, second])
+		else result.unchanged.push([first, second])
+	}
+	
+	result.added = secondArray.filter((_, secondIndex) => !matched[secondIndex])
+	
+	return result
+}
+
+class SnapshotIndex {
+	private snapshot: Snapshot
+	private tables: { [key in ObjectType]?: Map<string, unknown> } = {}
+	
+	constructor(snapshot: Snapshot) {
+		this.snapshot = snapshot
+	}
+	
+	public lookup<T extends ObjectType>(type: T, id: unknown) {
+		if(typeof id !== 'string') return undefined
+		
+		let table = this.tables[type]
+		if(!table) {
+			table = new Map(((this.snapshot[SnapshotKeys[type]] ?? []) as { id: string }[]).map(object => [ object.id, object ]))
+			this.tables[type] = table
+		}
+		
+		return table.get(id) as ObjectTypeMap[T] | undefined
+	}
+	
+	public ownIdentity<T extends ObjectType>(type: T, object: ObjectTypeMap[T]) {
+		return IdenitityKeys[type].map(key => `${object[key] ?? ''}`).join('\u0000')
+	}
+	
+	public parentIdentity<T extends ObjectType>(type: T, object: ObjectTypeMap[T]): string {
+		return RelationshipKeys[type].filter(relationship => relationship.parent).map(relationship => {
+			const parent = this.lookup(relationship.type, object[relationship.key])
+			return parent ? this.identity(relationship.type, parent) : ''
+		}).join('\u0001')
+	}
+	
+	public identity<T extends ObjectType>(type: T, object: ObjectTypeMap[T]): string {
+		return `${this.parentIdentity(type, object)}\u0002${this.ownIdentity(type, object)}`
+	}
+	
+	public linkedIdentity<T extends ObjectType>(type: T, object: ObjectTypeMap[T], relationship: { key: keyof ObjectTypeMap[T], type: ObjectType }) {
+		const linked = this.lookup(relationship.type, object[relationship.key])
+		return linked ? this.identity(relationship.type, linked) : undefined
+	}
+}
+
+function equalInSnapshots<T extends ObjectType>(type: T, first: ObjectTypeMap[T], second: ObjectTypeMap[T], firstIndex: SnapshotIndex, secondIndex: SnapshotIndex) {
+	for(const key of [ ...IdenitityKeys[type], ...CompareKeys[type] ]) {
+		if(first[key] !== second[key]) return false
+	}
+	
+	for(const relationship of RelationshipKeys[type]) {
+		if(firstIndex.linkedIdentity(type, first, relationship) !== secondIndex.linkedIdentity(type, second, relationship)) return false
+	}
+	
+	return true
+}
+
+function diffInSnapshots<T extends ObjectType>(type: T, firstIndex: SnapshotIndex, secondIndex: SnapshotIndex, initial: ObjectTypeMap[T][], updated: ObjectTypeMap[T][]) {
+	const result = new DiffingResult<ObjectTypeMap[T]>()
+	
+	const match = (first: ObjectTypeMap[T], second: ObjectTypeMap[T], moved: boolean) => {
+		if(moved) result.moved.push([first, second])
+		
+		if(moved || !equalInSnapshots(type, first, second, firstIndex, secondIndex)) result.modified.push([first, second])
+		else result.unchanged.push([first, second])
+	}
+	
+	// Exact matches including the identity of the parent
+	const candidates = new Map<string, ObjectTypeMap[T][]>()
+	for(const first of initial) {
+		const identity = firstIndex.identity(type, first)
+		
+		const list = candidates.get(identity)
+		if(list) list.push(first)
+		else candidates.set(identity, [first])
+	}
+	
+	let remaining: ObjectTypeMap[T][] = []
+	for(const second of updated) {
+		const first = candidates.get(secondIndex.identity(type, second))?.shift()
+		if(first) match(first, second, false)
+		else remaining.push(second)
+	}
+	
+	let removed = Array.from(candidates.values()).flat()
+	
+	const hasParent = RelationshipKeys[type].some(relationship => relationship.parent)
+	const fuzzyMatchGroup = FuzzyMatchGroups[type] as ((object: ObjectTypeMap[T]) => string) | undefined
+	
+	if(hasParent) {
+		// Same object attached to a different parent
+		const ownCandidates = new Map<string, ObjectTypeMap[T][]>()
+		for(const first of removed) {
+			const identity = firstIndex.ownIdentity(type, first)
+			
+			const list = ownCandidates.get(identity)
+			if(list) list.push(first)
+			else ownCandidates.set(identity, [first])
+		}
+		
+		remaining = remaining.filter(second => {
+			const first = ownCandidates.get(secondIndex.ownIdentity(type, second))?.shift()
+			if(first) match(first, second, true)
+			return !first
+		})
+		
+		removed = Array.from(ownCandidates.values()).flat()
+	}
+	
+	if(hasParent || fuzzyMatchGroup) {
+		const group = (index: SnapshotIndex, object: ObjectTypeMap[T]) => `${index.parentIdentity(type, object)}\u0003${fuzzyMatchGroup?.(object) ?? ''}`
+		
+		const groups = new Map<string, ObjectTypeMap[T][]>()
+		for(const first of removed) {
+			const key = group(firstIndex, first)
+			
+			const list = groups.get(key)
+			if(list) list.push(first)
+			else groups.set(key, [first])
+		}
+		
+		const consumed = new Set<ObjectTypeMap[T]>()
+		
+		// Edited identity keys within the same parent or group, matched on the most shared identity keys
+		remaining = remaining.filter(second => {
+			let best: ObjectTypeMap[T] | undefined
+			let bestScore = 0
+			for(const first of groups.get(group(secondIndex, second)) ?? []) {
+				if(consumed.has(first)) continue
+				
+				const score = IdenitityKeys[type].filter(key => first[key] === second[key]).length
+				if(score > bestScore) {
+					best = first
+					bestScore = score
+				}
+			}
+			
+			if(best) {
+				consumed.add(best)
+				match(best, second, false)
+			}
+			
+			return !best
+		})
+		
+		removed = removed.filter(first => !consumed.has(first))
+	}
+	
+	result.removed = removed
+	result.added = remaining
+	
+	return result
+}
+
+function diffSnapshots(initial: Snapshot, updated: Snapshot) {
+	// Lessons outside of the range both snapshots have fetched are neither added nor cancelled, e.g. when a new week starts
+	if(initial.scheduleRange && updated.scheduleRange) {
+		const from = Math.max(initial.scheduleRange.from, updated.scheduleRange.from)
+		const to = Math.min(initial.scheduleRange.to, updated.scheduleRange.to)
+		const inRange = (lesson: Lesson) => lesson.endDate >= from && lesson.startDate <= to
+		
+		initial = { ...initial, lessons: initial.lessons?.filter(inRange) }
+		updated = { ...updated, lessons: updated.lessons?.filter(inRange) }
+	}
+	
+	const firstIndex = new SnapshotIndex(initial)
+	const secondIndex = new SnapshotIndex(updated)
+	
+	const result: { [key in ObjectType]?: DiffingResult<unknown> } = {}
+	
+	for(const type of Object.values(ObjectType).filter((value): value is ObjectType => typeof value === 'number')) {
+		result[type] = diffInSnapshots(type, firstIndex, secondIndex, (initial[SnapshotKeys[type]] ?? []) as ObjectTypeMap[typeof type][], (updated[SnapshotKeys[type]] ?? []) as ObjectTypeMap[typeof type][])
+	}
+	
+	return result as SnapshotDiffingResult
+}
+
+/***************\
+| Change Events |
+\***************/
+
+type ChangeKind = 'added' | 'modified' | 'removed'
+
+type ChangeEvent<T> = {
+	name: keyof ChangeEvents | undefined
+	type: ObjectType
+	kind: ChangeKind
+	before?: T
+	after?: T
+}
+
+type ChangeEvents = {
+	gradeAdded: ChangeEvent<Grade>
+	gradeChanged: ChangeEvent<Grade>
+	gradeRemoved: ChangeEvent<Grade>
+	subjectConfirmed: ChangeEvent<Subject>
+	absenceAdded: ChangeEvent<Absence>
+	absenceExcused: ChangeEvent<Absence>
+	openAbsenceAdded: ChangeEvent<OpenAbsence>
+	openAbsenceResolved: ChangeEvent<OpenAbsence>
+	lateAbsenceAdded: ChangeEvent<LateAbsence>
+	transactionAdded: ChangeEvent<Transaction>
+	lessonAdded: ChangeEvent<Lesson>
+	lessonChanged: ChangeEvent<Lesson>
+	lessonCancelled: ChangeEvent<Lesson>
+}
+
+const ChangeEventRules: { [key in keyof ChangeEvents]: { type: ObjectType, kind: ChangeKind, when?: (before: AnyObjectType, after: AnyObjectType) => boolean } } = {
+	gradeAdded: { type: ObjectType.GRADE, kind: 'added' },
+	gradeChanged: { type: ObjectType.GRADE, kind: 'modified' },
+	gradeRemoved: { type: ObjectType.GRADE, kind: 'removed' },
+	subjectConfirmed: { type: ObjectType.SUBJECT, kind: 'modified', when: (before, after) => !before.gradesConfirmed && after.gradesConfirmed },
+	absenceAdded: { type: ObjectType.ABSENCE, kind: 'added' },
+	absenceExcused: { type: ObjectType.ABSENCE, kind: 'modified', when: (before, after) => !before.excused && after.excused },
+	openAbsenceAdded: { type: ObjectType.OPEN_ABSENCE, kind: 'added' },
+	openAbsenceResolved: { type: ObjectType.OPEN_ABSENCE, kind: 'removed' },
+	lateAbsenceAdded: { type: ObjectType.LATE_ABSENCE, kind: 'added' },
+	transactionAdded: { type: ObjectType.TRANSACTION, kind: 'added' },
+	lessonAdded: { type: ObjectType.LESSON, kind: 'added' },
+	lessonChanged: { type: ObjectType.LESSON, kind: 'modified' },
+	lessonCancelled: { type: ObjectType.LESSON, kind: 'removed' },
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+class ChangeEmitter {
+	private snapshot?: Snapshot
+	
+	private eventListeners: { [key in keyof ChangeEvents]?: ((event: ChangeEvents[key]) => void)[] } = {}
+	private typeListeners: { [key in ObjectType]?: ((event: ChangeEvent<ObjectTypeMap[key]>) => void)[] } = {}
+	
+	// Without the last snapshot of a previous run, the first update only establishes the baseline
+	public constructor(lastSnapshot?: Snapshot) {
+		this.snapshot = lastSnapshot
+	}
+	
+	public get lastSnapshot() {
+		return this.snapshot
+	}
+	
+	public on<K extends keyof ChangeEvents>(name: K, listener: (event: ChangeEvents[K]) => void) {
+		const listeners = (this.eventListeners[name] ?? (this.eventListeners[name] = [])) as ((event: ChangeEvents[K]) => void)[]
+		listeners.push(listener)
+		
+		return () => {
+			const index = listeners.indexOf(listener)
+			if(index >= 0) listeners.splice(index, 1)
+		}
+	}
+	
+	public onType<T extends ObjectType>(type: T, listener: (event: ChangeEvent<ObjectTypeMap[T]>) => void) {
+		const listeners = (this.typeListeners[type] ?? (this.typeListeners[type] = [])) as ((event: ChangeEvent<ObjectTypeMap[T]>) => void)[]
+		listeners.push(listener)
+		
+		return () => {
+			const index = listeners.indexOf(listener)
+			if(index >= 0) listeners.splice(index, 1)
+		}
+	}
+	
+	public update(snapshot: Snapshot) {
+		const previous = this.snapshot
+		this.snapshot = snapshot
+		
+		if(!previous) return []
+		
+		const events = this.collect(diff(previous, snapshot))
+		
+		for(const event of events) {
+			if(event.name) this.dispatch(this.eventListeners[event.name] as ((event: ChangeEvent<unknown>) => void)[] | undefined, event)
+			this.dispatch(this.typeListeners[event.type] as ((event: ChangeEvent<unknown>) => void)[] | undefined, event)
+		}
+		
+		return events
+	}
+	
+	private collect(result: SnapshotDiffingResult) {
+		const events: ChangeEvent<unknown>[] = []
+		
+		for(const type of Object.values(ObjectType).filter((value): value is ObjectType => typeof value === 'number')) {
+			const changes: [ChangeKind, unknown, unknown][] = [
+				...(result[type].added as unknown[]).map(after => [ 'added', undefined, after ] as [ChangeKind, unknown, unknown]),
+				...(result[type].modified as [unknown, unknown][]).map(([ before, after ]) => [ 'modified', before, after ] as [ChangeKind, unknown, unknown]),
+				...(result[type].removed as unknown[]).map(before => [ 'removed', before, undefined ] as [ChangeKind, unknown, unknown]),
+			]
+			
+			for(const [ kind, before, after ] of changes) {
+				const name = (Object.keys(ChangeEventRules) as (keyof ChangeEvents)[]).find(name => {
+					const rule = ChangeEventRules[name]
+					return rule.type == type && rule.kind == kind && (!rule.when || rule.when(before as AnyObjectType, after as AnyObjectType))
+				})
+				
+				events.push({ name: name, type: type, kind: kind, before: before, after: after })
+			}
+		}
+		
+		return events
+	}
+	
+	private dispatch(listeners: ((event: ChangeEvent<unknown>) => void)[] | undefined, event: ChangeEvent<unknown>) {
+		for(const listener of [ ...listeners ?? [] ]) {
+			try {
+				listener(event)
+			} catch(e) {
+				logger.error(`listener for ${event.name ?? ObjectType[event.type]} threw ${e}`, { func: 'ChangeEmitter' })
+			}
+		}
+	}
+}
+
+/**********\
+| Webhooks |
+\**********/
+
+type WebhookEndpoint = {
+	url: string
+	secret: string
+	types?: ObjectType[]
+}
+
+type WebhookDelivery = {
+	id: string
+	url: string
+	body: string
+	signature: string
+	attempts: number
+	nextAttempt: number
+}
+
+// Stores undelivered webhooks, so they survive restarts of the dispatcher
+type WebhookOutbox = {
+	load(): WebhookDelivery[] | Promise<WebhookDelivery[]>
+	save(deliveries: WebhookDelivery[]): void | Promise<void>
+}
+
+// Fields which are never sent to webhooks
+const WebhookRedactions: { [key in ObjectType]?: (keyof ObjectTypeMap[key])[] } = {
+	[ObjectType.STUDENT]: ['address', 'phone'],
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+class WebhookDispatcher {
+	private deliveries?: WebhookDelivery[]
+	private flushing?: Promise<void>
+	private waitKey?: symbol
+	
+	public retryOptions: RetryOptions = { retries: 8, baseDelay: 30 * 1000, maxDelay: 60 * 60 * 1000, jitter: 0.2, timeout: 30 * 1000 }
+	
+	public constructor(public endpoints: WebhookEndpoint[], private outbox: WebhookOutbox = { load: () => [], save: () => undefined }) {}
+	
+	private static redact<T extends ObjectType>(type: T, object: ObjectTypeMap[T]) {
+		const redactions = WebhookRedactions[type] as (keyof ObjectTypeMap[T])[] | undefined
+		if(!redactions || !object) return object
+		
+		const redacted = { ...object }
+		for(const key of redactions) delete redacted[key]
+		
+		return redacted
+	}
+	
+	private static payload<T extends ObjectType>(type: T, result: DiffingResult<ObjectTypeMap[T]>) {
+		const redact = (object: ObjectTypeMap[T]) => WebhookDispatcher.redact(type, object)
+		
+		return {
+			type: ObjectType[type],
+			timestamp: Date.now(),
+			added: result.added.map(redact),
+			modified: result.modified.map(([ before, after ]) => [ redact(before), redact(after) ]),
+			moved: result.moved.map(([ before, after ]) => [ redact(before), redact(after) ]),
+			removed: result.removed.map(redact),
+		}
+	}
+	
+	private async loadDeliveries() {
+		if(!this.deliveries) this.deliveries = [ ...await this.outbox.load() ]
+		
+		return this.deliveries
+	}
+	
+	public async dispatch(result: SnapshotDiffingResult) {
+		const deliveries = await this.loadDeliveries()
+		
+		for(const type of Object.values(ObjectType)) {
+			if(typeof type !== 'number') continue
+			
+			const typeResult = result[type]
+			if(!typeResult || typeResult.added.length + typeResult.modified.length + typeResult.removed.length == 0) continue
+			
+			const body = JSON.stringify(WebhookDispatcher.payload(type, typeResult))
+			
+			for(const endpoint of this.endpoints) {
+				if(endpoint.types && !endpoint.types.includes(type)) continue
+				
+				deliveries.push({
+					id: hashString(`${endpoint.url}\u0000${body}\u0000${Math.random()}`),
+					url: endpoint.url,
+					body,
+					signature: `sha256=${await hmacSHA256(endpoint.secret, body)}`,
+					attempts: 0,
+					nextAttempt: Date.now(),
+				})
+			}
+		}
 		
-			dom = dom as DOMObject
+		await this.outbox.save(deliveries)
+		await this.flush()
+	}
+	
+	public async flush() {
+		// Concurrent flushes would deliver the same webhooks twice
+		if(this.flushing) return await this.flushing
 		
-			const events = dom.querySelector('data > event')
+		this.flushing = this.deliverDue().finally(() => this.flushing = undefined)
+		await this.flushing
 		
-			assertFatal(!!events, new ParserException('parseSchedule', `!!events (was ${undefined})`))
+		// Nobody awaits the scheduled flush, a failing outbox must not become an unhandled rejection
+		this.scheduleFlush().catch(e => logger.error(`scheduled flush failed (${e instanceof Exception || e instanceof Error ? e.message : e})`, { func: 'WebhookDispatcher' }))
+	}
+	
+	public stop() {
+		if(this.waitKey) cancelWait(this.waitKey)
+		this.waitKey = undefined
+	}
+	
+	private async deliverDue() {
+		const deliveries = await this.loadDeliveries()
+		
+		for(const delivery of deliveries.filter(delivery => delivery.nextAttempt <= Date.now())) {
+			let delivered = false
+			
+			try {
+				const response = await request(delivery.url, { method: 'POST', body: delivery.body, ignoreStatusCode: true, timeout: this.retryOptions.timeout, headers: {
+					'Content-Type': 'application/json',
+					'X-SchulNetz-Delivery': delivery.id,
+					'X-SchulNetz-Signature': delivery.signature,
+				} })
+				
+				delivered = response.status >= 200 && response.status < 300
+			} catch(e) {
+				// Responses without content (e.g. 204) are reported as errors by the vendor
+				const { status } = (e && typeof e === 'object' ? e : {}) as Partial<RequestError>
+				delivered = status != undefined && status >= 200 && status < 300
+			}
 			
-			events.forEach(event => {
-				try {
-					const lesson: Partial<Lesson> = {}
-					
-					const startDate = event.querySelector('start_date')[0]?.innerText()
-					lesson.startDate = parseDate(startDate, `yyyy-MM-dd HH:mm${/:.*:/g.test(startDate) ? ':ss' : ''}`)
-					
-					const endDate = event.querySelector('end_date')[0]?.innerText()
-					lesson.endDate = parseDate(endDate, `yyyy-MM-dd HH:mm${/:.*:/g.test(endDate) ? ':ss' : ''}`)
-					
-					lesson.text = event.querySelector('text')[0]?.innerText()
-					lesson.comment = event.querySelector('kommentar')[0]?.innerText()
-					lesson.shortText = event.querySelector('fachkuerzel')[0]?.innerText()
-					lesson.subjectAbbreviation = event.querySelector('kurskuerzel')[0]?.innerText()
-					lesson.room = event.querySelector('zimmerkuerzel')[0]?.innerText()
-					lesson.color = event.querySelector('color')[0]?.innerText()
-					
-					result.lessons?.push(lesson as Lesson)
-				} catch(exception) {
-					if(exception instanceof Exception) result.exceptions.push(exception)
-					else result.exceptions.push(new JavaScriptException('parseSchedule', `${exception}`))
-				}
-			})
-		} catch(exception) {
-			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('parseSchedule', `${exception}`))
+			if(delivered) {
+				deliveries.splice(deliveries.indexOf(delivery), 1)
+			} else if(++delivery.attempts > this.retryOptions.retries) {
+				logger.warn(`dropping delivery ${delivery.id} to ${delivery.url} after ${delivery.attempts} attempts`, { func: 'WebhookDispatcher' })
+				deliveries.splice(deliveries.indexOf(delivery), 1)
+			} else {
+				const delay = Math.min(this.retryOptions.maxDelay, this.retryOptions.baseDelay * 2 ** (delivery.attempts - 1))
+				delivery.nextAttempt = Date.now() + delay * (1 - this.retryOptions.jitter * Math.random())
+			}
 		}
 		
-		if(result.lessons?.length === 0) result.lessons = undefined
+		await this.outbox.save(deliveries)
+	}
+	
+	private async scheduleFlush() {
+		this.stop()
 		
-		return result
-	},
-} as const
+		const deliveries = this.deliveries ?? []
+		if(deliveries.length == 0) return
+		
+		const promise = wait(Math.max(0, Math.min(...deliveries.map(delivery => delivery.nextAttempt)) - Date.now()))
+		this.waitKey = promise.waitKey
+		
+		try {
+			await promise
+		} catch(e) {
+			return
+		}
+		
+		this.waitKey = undefined
+		await this.flush()
+	}
+}
 
-/********\
-| Linker |
-\********/
+/*****************\
+| Grade Analytics |
+\*****************/
 
-// TODO: Error handling + recovery
+type HypotheticalGrade = {
+	grade: number
+	weight: number
+}
 
-class LinkResult extends User {
+enum RequiredGradeStatus {
+	Reachable,
+	AlreadyReached,
+	Unreachable,
+	Unknown,
+}
+
+class GradeSimulationResult {
 	exceptions: Exception[] = []
+	average?: number
+	weight = 0
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function link(user: Partial<User>) {
-	const result = new LinkResult()
-	
-	const teacherTable: { [ key: string ]: Teacher } = {}
-	const subjectTable: { [ key: string ]: Subject } = {}
-	
-	const subjectIdTable = new Map<string, Subject>()
-	const absenceIdTable = new Map<string, Absence>()
-	
-	for(const teacher of user.teachers ?? []) {
-		teacherTable[teacher.abbreviation] = teacher
-	}
-	
-	for(const subject of user.subjects ?? []) {
-		try {
-			subjectTable[subject.abbreviation] = subject
-			subjectIdTable.set(subject.id, subject)
+class RequiredGradeResult extends GradeSimulationResult {
+	status = RequiredGradeStatus.Unknown
+	grade?: number
+}
+
+type ReportCardSubject = {
+	subject: Subject
+	grade: number
+	points: number
+}
+
+class ReportCardResult {
+	exceptions: Exception[] = []
+	subjects: ReportCardSubject[] = []
+	insufficientSubjects: ReportCardSubject[] = []
+	average?: number
+	plusPoints = 0
+	minusPoints = 0
+	pointBalance = 0
+	promoted = false
+	failedRules: string[] = []
+}
+
+type PromotionRule = {
+	name: string
+	check: (reportCard: ReportCardResult) => boolean
+}
+
+// Rounding is the step subject averages are rounded to (0.5 for halves, 0.1 for tenths), minus points are multiplied by minusPointFactor
+type PromotionRuleSet = {
+	name: string
+	rounding: number
+	minusPointFactor: number
+	includeSubject?: (subject: Subject) => boolean
+	rules: readonly PromotionRule[]
+}
+
+// eslint-disable-next-line no-var, @typescript-eslint/no-unused-vars
+var Analytics = {
+	simulateAverage(subject: Subject, grades: Grade[], hypotheticalGrades: HypotheticalGrade[] = []): GradeSimulationResult {
+		const result = new GradeSimulationResult()
 		
-			assertFatal(!!subject.abbreviation, new LinkerException('Subjects', `!!subject.abbreviation (was ${subject.abbreviation != undefined ? '\'\'' : undefined})`))
-			const [ , , teacherAbbreviation ] = subject.abbreviation.split('-')
-			assertFatal(!!teacherAbbreviation, new LinkerException('Subjects', `!!teacherAbbreviation (was ${teacherAbbreviation != undefined ? '\'\'' : undefined})`))
+		let gradeTotal = 0
+		let weightTotal = 0
 		
-			const teacher = teacherTable[teacherAbbreviation]
-			assertInfo(!!teacher, new LinkerException('Subjects', `!!teacher (was ${undefined})`))
-			if(teacher) subject.teacherId = teacher.id
+		// Grades without a value are not part of the average, just like in parseGrades
+		for(const grade of grades) {
+			if(grade.subjectId !== subject.id || !grade.grade) continue
+			
+			const weight = grade.weight ?? 1
+			gradeTotal += grade.grade * weight
+			weightTotal += weight
+		}
+		
+		for(const hypotheticalGrade of hypotheticalGrades) {
+			try {
+				assertWarn(hypotheticalGrade.grade >= MIN_GRADE && hypotheticalGrade.grade <= MAX_GRADE, new AnalyticsException('simulateAverage', `hypotheticalGrade.grade >= ${MIN_GRADE} && hypotheticalGrade.grade <= ${MAX_GRADE} (was ${hypotheticalGrade.grade})`))
+				assertWarn(hypotheticalGrade.weight >= 0, new AnalyticsException('simulateAverage', `hypotheticalGrade.weight >= 0 (was ${hypotheticalGrade.weight})`))
+				
+				gradeTotal += hypotheticalGrade.grade * hypotheticalGrade.weight
+				weightTotal += hypotheticalGrade.weight
+			} catch(exception) {
+				if(exception instanceof Exception) result.exceptions.push(exception)
+				else result.exceptions.push(new JavaScriptException('simulateAverage', `${exception}`))
+			}
+		}
+		
+		// The visible grades are only a part of the average, so it is unknown
+		try {
+			assertWarn(!subject.hiddenGrades, new AnalyticsException('simulateAverage', `!subject.hiddenGrades (was ${subject.hiddenGrades})`))
 		} catch(exception) {
 			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('link(Subjects)', `${exception}`))
+			else result.exceptions.push(new JavaScriptException('simulateAverage', `${exception}`))
 		}
-	}
+		
+		result.average = weightTotal > 0 && !subject.hiddenGrades ? gradeTotal / weightTotal : undefined
+		result.weight = weightTotal
+		
+		return result
+	},
 	
-	for(const openAbsence of user.openAbsences ?? []) {
+	roundGrade(grade: number, step = 0.5): number {
+		// Compensate for floating point errors so that e.g. 4.25 is rounded up to 4.5
+		return parseFloat((Math.round(grade / step + 1e-9) * step).toFixed(10))
+	},
+	
+	evaluateReportCard(subjects: Subject[], ruleSet: PromotionRuleSet = PromotionRuleSets.DEFAULT): ReportCardResult {
+		const result = new ReportCardResult()
+		
 		try {
-			const subject = subjectTable[openAbsence.lessonAbbreviation]
-			assertInfo(!!subject, new LinkerException('OpenAbsences', `!!subject (was ${undefined})`))
-			if(subject) openAbsence.subjectId = subject.id
+			assertWarn(ruleSet.rounding > 0, new AnalyticsException('evaluateReportCard', `ruleSet.rounding > 0 (was ${ruleSet.rounding})`))
+			
+			for(const subject of subjects) {
+				if(ruleSet.includeSubject && !ruleSet.includeSubject(subject)) continue
+				
+				if(subject.average == undefined || isNaN(subject.average)) {
+					if(subject.hiddenGrades) result.exceptions.push(new AnalyticsException('evaluateReportCard', `grades of ${subject.abbreviation} are hidden`))
+					continue
+				}
+				
+				const grade = Analytics.roundGrade(subject.average, ruleSet.rounding)
+				const reportCardSubject = { subject, grade, points: grade - SUFFICIENT_GRADE }
+				
+				result.subjects.push(reportCardSubject)
+				
+				if(reportCardSubject.points < 0) {
+					result.insufficientSubjects.push(reportCardSubject)
+					result.minusPoints -= reportCardSubject.points
+				} else {
+					result.plusPoints += reportCardSubject.points
+				}
+			}
+			
+			result.pointBalance = result.plusPoints - ruleSet.minusPointFactor * result.minusPoints
+			if(result.subjects.length > 0) result.average = result.subjects.reduce((total, reportCardSubject) => total + reportCardSubject.grade, 0) / result.subjects.length
+			
+			for(const rule of ruleSet.rules) {
+				if(!rule.check(result)) result.failedRules.push(rule.name)
+			}
+			
+			result.promoted = result.subjects.length > 0 && result.failedRules.length == 0
 		} catch(exception) {
 			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('link(OpenAbsences)', `${exception}`))
+			else result.exceptions.push(new JavaScriptException('evaluateReportCard', `${exception}`))
 		}
-	}
-	
-	for(const absence of user.absences ?? []) absenceIdTable.set(absence.id, absence)
+		
+		return result
+	},
 	
-	for(const absenceReport of user.absenceReports ?? []) {
+	requiredGrade(subject: Subject, grades: Grade[], target: number, weight = 1, hypotheticalGrades: HypotheticalGrade[] = [], step = 0.01): RequiredGradeResult {
+		const result = new RequiredGradeResult()
+		
+		const simulation = Analytics.simulateAverage(subject, grades, hypotheticalGrades)
+		result.exceptions.push(...simulation.exceptions)
+		result.average = simulation.average
+		result.weight = simulation.weight
+		
 		try {
-			const subject = subjectTable[absenceReport.lessonAbbreviation]
-			assertInfo(!!subject, new LinkerException('AbsenceReports', `!!subject (was ${undefined})`))
-			if(subject) absenceReport.subjectId = subject.id
+			assertWarn(target >= MIN_GRADE && target <= MAX_GRADE, new AnalyticsException('requiredGrade', `target >= ${MIN_GRADE} && target <= ${MAX_GRADE} (was ${target})`))
+			assertWarn(weight > 0, new AnalyticsException('requiredGrade', `weight > 0 (was ${weight})`))
+			assertWarn(step > 0, new AnalyticsException('requiredGrade', `step > 0 (was ${step})`))
+			
+			// The average of a subject with hidden grades is unknown
+			if(subject.hiddenGrades) return result
+			
+			const gradeTotal = (simulation.average ?? 0) * simulation.weight
+			const required = (target * (simulation.weight + weight) - gradeTotal) / weight
+			
+			// Round up to the next grade step, compensating for floating point errors
+			const rounded = parseFloat((Math.ceil(required / step - 1e-9) * step).toFixed(10))
+			
+			if(rounded <= MIN_GRADE) {
+				result.status = RequiredGradeStatus.AlreadyReached
+				result.grade = MIN_GRADE
+			} else if(rounded > MAX_GRADE) {
+				result.status = RequiredGradeStatus.Unreachable
+				result.grade = rounded
+			} else {
+				result.status = RequiredGradeStatus.Reachable
+				result.grade = rounded
+			}
 		} catch(exception) {
 			if(exception instanceof Exception) result.exceptions.push(exception)
-			else result.exceptions.push(new JavaScriptException('link(AbsenceReports)', `${exception}`))
+			else result.exceptions.push(new JavaScriptException('requiredGrade', `${exception}`))
 		}
-	}
+		
+		return result
+	},
+} as const
+
+// eslint-disable-next-line no-var, @typescript-eslint/no-unused-vars
+var PromotionRules = {
+	maxInsufficientSubjects(count: number): PromotionRule {
+		return { name: `maxInsufficientSubjects(${count})`, check: reportCard => reportCard.insufficientSubjects.length <= count }
+	},
 	
-	Object.assign(result, user)
+	maxMinusPoints(points: number): PromotionRule {
+		return { name: `maxMinusPoints(${points})`, check: reportCard => reportCard.minusPoints <= points }
+	},
 	
-	return result
-}
+	minAverage(average: number): PromotionRule {
+		return { name: `minAverage(${average})`, check: reportCard => reportCard.average != undefined && reportCard.average >= average }
+	},
+	
+	// Minus points have to be compensated by plus points, weighted by the minusPointFactor of the rule set
+	pointCompensation(): PromotionRule {
+		return { name: 'pointCompensation()', check: reportCard => reportCard.pointBalance >= 0 }
+	},
+} as const
 
-/*********\
-| Diffing |
-\*********/
+// eslint-disable-next-line no-var
+var PromotionRuleSets = {
+	DEFAULT: {
+		name: 'default',
+		rounding: 0.5,
+		minusPointFactor: 2,
+		rules: [ PromotionRules.maxInsufficientSubjects(3), PromotionRules.minAverage(SUFFICIENT_GRADE), PromotionRules.pointCompensation() ],
+	},
+	TENTHS: {
+		name: 'tenths',
+		rounding: 0.1,
+		minusPointFactor: 1,
+		rules: [ PromotionRules.maxMinusPoints(2), PromotionRules.minAverage(SUFFICIENT_GRADE) ],
+	},
+} as const
 
-enum ObjectType {
-	TEACHER,
-	STUDENT,
-	TRANSACTION,
-	ABSENCE,
-	ABSENCE_REPORT,
-	OPEN_ABSENCE,
-	LATE_ABSENCE,
-	SUBJECT,
-	GRADE,
-}
+/*****************\
+| Calendar Export |
+\*****************/
 
-type ObjectTypeMap = [Teacher, Student, Transaction, Absence, AbsenceReport, OpenAbsence, LateAbsence, Subject, Grade]
-type AnyObjectType = Teacher & Student & Transaction & Absence & AbsenceReport & OpenAbsence & LateAbsence & Subject & Grade
+const CALENDAR_TIMEZONE = 'Europe/Zurich'
 
-// TODO: Relationships
-const IdenitityKeys: { [key in ObjectType]: (keyof ObjectTypeMap[key])[] } = {
-	[ObjectType.TEACHER]: ['lastName', 'firstName', 'abbreviation'],
-	[ObjectType.STUDENT]: ['lastName', 'firstName'],
-	[ObjectType.TRANSACTION]: ['date', 'reason'],
-	[ObjectType.ABSENCE]: ['startDate', 'endDate'],
-	[ObjectType.ABSENCE_REPORT]: ['startDate', 'endDate', 'lessonAbbreviation'],
-	[ObjectType.OPEN_ABSENCE]: ['startDate', 'endDate', 'lessonAbbreviation'],
-	[ObjectType.LATE_ABSENCE]: ['date', 'reason', 'timespan'],
-	[ObjectType.SUBJECT]: ['abbreviation'],
-	[ObjectType.GRADE]: ['date', 'topic'],
+const CALENDAR_VTIMEZONE = [
+	'BEGIN:VTIMEZONE',
+	`TZID:${CALENDAR_TIMEZONE}`,
+	'BEGIN:DAYLIGHT',
+	'TZOFFSETFROM:+0100',
+	'TZOFFSETTO:+0200',
+	'TZNAME:CEST',
+	'DTSTART:19810329T020000',
+	'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+	'END:DAYLIGHT',
+	'BEGIN:STANDARD',
+	'TZOFFSETFROM:+0200',
+	'TZOFFSETTO:+0100',
+	'TZNAME:CET',
+	'DTSTART:19961027T030000',
+	'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+	'END:STANDARD',
+	'END:VTIMEZONE',
+]
+
+function escapeCalendarText(text: string) {
+	return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
 }
 
-const same = (first: unknown, second: unknown) => {
-	if(typeof first != typeof second) return false
-	else if(first === second) return true
-	else if(typeof first === 'object' && typeof second === 'object' && first && second) {
-		if(!('$type' in first) || (first as { $type: unknown }).$type != (second as { $type: unknown }).$type || typeof (first as { $type: unknown }).$type in ObjectType || !((first as { $type: ObjectType }).$type in ObjectType)) return false
-		
-		for(const key of IdenitityKeys[(first as { $type: ObjectType }).$type]) {
-			if(!same((first as unknown as AnyObjectType)[key], (second as AnyObjectType)[key])) return false
+function foldCalendarLine(line: string) {
+	const parts: string[] = []
+	
+	let current = ''
+	let octets = 0
+	for(const char of line) {
+		const code = char.codePointAt(0) as number
+		const length = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+		
+		if(octets + length > (parts.length == 0 ? 75 : 74)) {
+			parts.push(current)
+			current = ''
+			octets = 0
 		}
 		
-		return true
-	} else return false
-}
-
-const CompareKeys: { [key in ObjectType]: (keyof ObjectTypeMap[key])[] } = {
-	[ObjectType.TEACHER]: ['email'],
-	[ObjectType.STUDENT]: ['gender', 'degree', 'bilingual', 'clazz', 'address', 'zip', 'city', 'phone', 'additionalClass', 'status'],
-	[ObjectType.TRANSACTION]: ['amount'],
-	[ObjectType.ABSENCE]: ['reason', 'additionalInfo', 'deadline', 'excused', 'lessonCount'],
-	[ObjectType.ABSENCE_REPORT]: ['comment'],
-	[ObjectType.OPEN_ABSENCE]: [],
-	[ObjectType.LATE_ABSENCE]: ['excused'],
-	[ObjectType.SUBJECT]: ['name', 'gradesConfirmed', 'hiddenGrades', 'average'],
-	[ObjectType.GRADE]: ['grade', 'details', 'weight'],
+		current += char
+		octets += length
+	}
+	
+	parts.push(current)
+	
+	return parts.join('\r\n ')
 }
 
-const equal = (first: unknown, second: unknown) => {
-	if(!same(first, second)) return false
-	else if(first == null) return true
-	else if(typeof first !== 'object') return true
+function calendarEvent(uid: string, summary: string, start: number, end: number, allDay: boolean, location?: string, description?: string) {
+	const lines = [
+		'BEGIN:VEVENT',
+		`UID:${uid}`,
+		`DTSTAMP:${formatDate(Date.now(), 'yyyyMMdd\'T\'HHmmss\'Z\'', 'UTC')}`,
+	]
 	
-	for(const key of CompareKeys[(first as { $type: ObjectType }).$type]) {
-		if(!equal((first as AnyObjectType)[key], (second as AnyObjectType)[key])) return false
+	if(allDay) {
+		lines.push(`DTSTART;VALUE=DATE:${formatDate(start, 'yyyyMMdd', CALENDAR_TIMEZONE)}`)
+		lines.push(`DTEND;VALUE=DATE:${formatDate(end, 'yyyyMMdd', CALENDAR_TIMEZONE)}`)
+	} else {
+		lines.push(`DTSTART;TZID=${CALENDAR_TIMEZONE}:${formatDate(start, 'yyyyMMdd\'T\'HHmmss', CALENDAR_TIMEZONE)}`)
+		lines.push(`DTEND;TZID=${CALENDAR_TIMEZONE}:${formatDate(end, 'yyyyMMdd\'T\'HHmmss', CALENDAR_TIMEZONE)}`)
 	}
 	
-	return true
-}
-
-class DiffingResult<T> {
-	added: T[] = []
-	modified: [T, T][] = []
-	unchanged: [T, T][] = []
-	removed: T[] = []
+	lines.push(`SUMMARY:${escapeCalendarText(summary)}`)
+	if(location) lines.push(`LOCATION:${escapeCalendarText(location)}`)
+	if(description) lines.push(`DESCRIPTION:${escapeCalendarText(description)}`)
+	lines.push('END:VEVENT')
+	
+	return lines
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-function diff<T>(initial: T | T[], updated: T | T[]) {
-	const result = new DiffingResult<T>()
+function exportCalendar(lessons: Lesson[], additional: { openAbsences?: OpenAbsence[], absenceReports?: AbsenceReport[], grades?: Grade[], subjects?: Subject[] } = {}) {
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//RuntimeOverflow//SchulNetzClient//DE',
+		'CALSCALE:GREGORIAN',
+		...CALENDAR_VTIMEZONE,
+	]
 	
-	const firstArray = Array.isArray(initial) ? [...initial] : [initial]
-	const secondArray = Array.isArray(updated) ? [...updated] : [updated]
+	for(const lesson of lessons) {
+		// Parallel lessons of a course only differ in their content, which their id is generated from
+		lines.push(...calendarEvent(`lesson-${lesson.id}@schulnetzclient`, lesson.text ?? lesson.shortText ?? '', lesson.startDate, lesson.endDate, false, lesson.room, lesson.comment))
+	}
 	
-	for(let firstIndex = 0; firstIndex < firstArray.length; firstIndex++) {
-		for(let secondIndex = 0; secondIndex < secondArray.length; secondIndex++) {
-			if(same(firstArray[firstIndex], secondArray[secondIndex])) {
-				if(!equal(firstArray[firstIndex], secondArray[secondIndex])) {
-					result.modified.push([firstArray[firstIndex], secondArray[secondIndex]])
-				} else result.unchanged.push([firstArray[firstIndex], secondArray[secondIndex]])
-				
-				firstArray.splice(firstIndex, 1)
-				secondArray.splice(secondIndex, 1)
-				firstIndex--
-				
-				break
-			}
-		}
+	for(const openAbsence of additional.openAbsences ?? []) {
+		const uid = `open-absence-${hashString([ openAbsence.startDate, openAbsence.endDate, openAbsence.lessonAbbreviation ].join('\u0000'))}@schulnetzclient`
+		lines.push(...calendarEvent(uid, `Offene Absenz: ${openAbsence.lessonAbbreviation}`, openAbsence.startDate, openAbsence.endDate, false))
 	}
 	
-	result.removed = firstArray
-	result.added = secondArray
+	for(const absenceReport of additional.absenceReports ?? []) {
+		const uid = `absence-report-${hashString([ absenceReport.startDate, absenceReport.endDate, absenceReport.lessonAbbreviation ].join('\u0000'))}@schulnetzclient`
+		lines.push(...calendarEvent(uid, `Absenz: ${absenceReport.lessonAbbreviation}`, absenceReport.startDate, absenceReport.endDate, false, undefined, absenceReport.comment))
+	}
 	
-	return result
-}
-
-//Confirm Grade (index starts with 0): https://ksw.nesa-sg.ch/index.php?pageid=21311&action=nvw_bestaetigen&id=66fb5304d45d7068&transid=e9a99d&listindex=1
\ No newline at end of file
+	const subjects = new Map((additional.subjects ?? []).map(subject => [ subject.id, subject ]))
+	
+	for(const grade of additional.grades ?? []) {
+		if(grade.date == undefined) continue
+		
+		const subject = subjects.get(grade.subjectId)
+		const end = new Date(grade.date)
+		end.setDate(end.getDate() + 1)
+		
+		const uid = `grade-${hashString([ subject?.abbreviation ?? grade.subjectId, grade.date, grade.topic ].join('\u0000'))}@schulnetzclient`
+		const summary = `${subject?.name ?? subject?.abbreviation ?? ''}${subject ? ': ' : ''}${grade.topic}`
+		lines.push(...calendarEvent(uid, summary, grade.date, end.getTime(), true, undefined, grade.grade != undefined ? `Note: ${grade.grade} (Gewichtung ${grade.weight})` : undefined))
+	}
+	
+	lines.push('END:VCALENDAR')
+	
+	return lines.map(foldCalendarLine).join('\r\n') + '\r\n'
+}
\ No newline at end of file
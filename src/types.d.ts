@@ -101,6 +101,8 @@ export type Transaction = {
 }
 
 export type Lesson = {
+	id: string
+	
 	startDate: number
 	endDate: number
 	text: string
@@ -109,4 +111,19 @@ export type Lesson = {
 	subjectAbbreviation?: string
 	room?: string
 	color: string
-}
\ No newline at end of file
+}
+
+export type Document = {
+	id: string
+	
+	title: string
+	category?: string
+	date?: number
+	url: string
+}
+
+export type DocumentDownload = {
+	content: ArrayBuffer
+	contentType?: string
+	filename?: string
+}
@@ -1,10 +1,28 @@
-export type Response = {
-	content: string
+export type Response<T = string> = {
+	content: T
 	status: number
 	headers: { [ key: string ]: string }
+	setCookies: string[]
 }
 
-export function request(url: string, options?: { method?: string, headers?: { [key: string]: string }, body?: string, ignoreStatusCode?: boolean }): Promise<Response>
+export type RequestOptions = {
+	method?: string
+	headers?: { [key: string]: string }
+	body?: string
+	ignoreStatusCode?: boolean
+	timeout?: number
+	binary?: boolean
+}
+
+export type RequestError = {
+	url: string
+	status?: number
+	code?: string
+	message: string
+}
+
+export function request(url: string, options: RequestOptions & { binary: true }): Promise<Response<ArrayBuffer>>
+export function request(url: string, options?: RequestOptions): Promise<Response>
 
 export class DOMObject {
 	static parse(html: string): DOMObject
@@ -18,8 +36,9 @@ export type WaitPromise = Promise<void> & { waitKey: symbol }
 export function wait(millis: number): WaitPromise
 export function cancelWait(waitKey: symbol): void
 
-export function generateUUID(): string
 export function parseDate(str: string, format: string): number | undefined
+export function formatDate(date: number, format: string, zone?: string): string
+export function hmacSHA256(key: string, message: string): Promise<string>
 export function extractQueryParameters(url: string, base?: string): { [key: string]: string } | undefined
 
 export function info(msg: string): void
@@ -0,0 +1,48 @@
+import assert from 'assert'
+import { describe, test } from 'node:test'
+import * as vendor from '../build/vendor/nodejs.js'
+import { loadLibrary } from './library.js'
+
+const { ChangeEmitter, diff, ObjectType } = loadLibrary(vendor, [ 'ChangeEmitter', 'diff', 'ObjectType' ])
+
+const DAY = 24 * 60 * 60 * 1000
+const MONDAY = new Date(2023, 10, 13).getTime()
+
+const week = monday => ({ from: monday, to: monday + 7 * DAY - 1 })
+
+// Mathematik on Monday and Wednesday, Deutsch on Thursday of the week
+const lessons = monday => [ [ 0, 'M-3a-MuH' ], [ 2, 'M-3a-MuH' ], [ 3, 'D-3a-BeA' ] ].map(([ day, subjectAbbreviation ]) => ({
+	id: `${monday + day * DAY}-${subjectAbbreviation}`,
+	startDate: monday + day * DAY + 8 * 60 * 60 * 1000,
+	endDate: monday + day * DAY + 8.75 * 60 * 60 * 1000,
+	text: subjectAbbreviation.substring(0, 1),
+	subjectAbbreviation,
+	color: '#3f51b5',
+}))
+
+const eventCounts = events => events.reduce((counts, event) => ({ ...counts, [event.name]: (counts[event.name] ?? 0) + 1 }), {})
+
+describe('lesson changes', () => {
+	test('a new week does not cancel the lessons of the previous one', () => {
+		const emitter = new ChangeEmitter({ lessons: lessons(MONDAY), scheduleRange: week(MONDAY) })
+		
+		assert.deepStrictEqual(eventCounts(emitter.update({ lessons: lessons(MONDAY + 7 * DAY), scheduleRange: week(MONDAY + 7 * DAY) })), {})
+	})
+	
+	test('lessons are compared in the range both snapshots cover', () => {
+		const [ monday, wednesday, thursday ] = lessons(MONDAY)
+		const next = lessons(MONDAY + 7 * DAY)
+		
+		// Both cover Wednesday to Sunday: the lesson on Thursday was cancelled, the lessons on both Mondays are outside of the range
+		const result = diff({ lessons: [ monday, wednesday, thursday ], scheduleRange: week(MONDAY) }, { lessons: [ wednesday, ...next ], scheduleRange: { from: MONDAY + 2 * DAY, to: MONDAY + 9 * DAY } })
+		
+		assert.deepStrictEqual(Array.from(result[ObjectType.LESSON].removed, lesson => lesson.id), [ thursday.id ])
+		assert.deepStrictEqual(Array.from(result[ObjectType.LESSON].added, lesson => lesson.id), [])
+	})
+	
+	test('snapshots without a range compare all lessons', () => {
+		const emitter = new ChangeEmitter({ lessons: lessons(MONDAY) })
+		
+		assert.deepStrictEqual(eventCounts(emitter.update({ lessons: lessons(MONDAY + 7 * DAY) })), { lessonAdded: 3, lessonCancelled: 3 })
+	})
+})
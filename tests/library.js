@@ -0,0 +1,37 @@
+import { spawn } from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import vm from 'vm'
+
+const __dirname = new URL('.', import.meta.url).pathname
+
+// Runs the compiled library (tools/test.sh builds it) with the given vendor, the vendor block is removed like in tools/build_dist.sh
+export function loadLibrary(vendor, names) {
+	const source = fs.readFileSync(path.join(__dirname, '../build/index.js'), 'utf8').replace(/^[\s\S]*?\n}\)\(\);\n/, '').replace(/^export {};$/m, '')
+	
+	const context = vm.createContext({ console, URL, ...vendor })
+	vm.runInContext(source, context)
+	
+	// Classes are lexically scoped and not properties of the context, so they are collected by a second script
+	return vm.runInContext(`({ ${names.join(', ')} })`, context)
+}
+
+export const fixturePath = (...names) => path.join(__dirname, 'fixtures', ...names)
+
+// Starts tools/mock_server.js on a free port and resolves with its url once it is listening
+export function startMockServer(env = {}) {
+	const server = spawn(process.execPath, [ path.join(__dirname, '../tools/mock_server.js') ], { env: { ...process.env, MOCK_PORT: '0', ...env }, stdio: [ 'ignore', 'pipe', 'inherit' ] })
+	
+	return new Promise((resolve, reject) => {
+		let output = ''
+		
+		server.stdout.on('data', chunk => {
+			output += chunk
+			
+			const match = output.match(/listening on (http:\/\/\S+)/)
+			if(match) resolve({ provider: match[1], stop: () => server.kill() })
+		})
+		
+		server.on('exit', code => reject(new Error(`mock server exited with code ${code}`)))
+	})
+}
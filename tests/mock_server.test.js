@@ -0,0 +1,244 @@
+import assert from 'assert'
+import { after, before, describe, test } from 'node:test'
+import * as vendor from '../build/vendor/nodejs.js'
+import { loadLibrary, startMockServer } from './library.js'
+
+// End-to-end tests of the Session against tools/mock_server.js, every test logs out again so no session timer keeps running
+
+const { Session, Page, LoginError, SyncSection, SyncStatus, logger } = loadLibrary(vendor, [ 'Session', 'Page', 'LoginError', 'SyncSection', 'SyncStatus', 'logger' ])
+
+logger.sinks = []
+
+const MONDAY = new Date(2023, 10, 13).getTime()
+const DAY = 24 * 60 * 60 * 1000
+
+describe('mock server', () => {
+	let server
+	
+	before(async () => server = await startMockServer())
+	after(() => server.stop())
+	
+	test('login', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		
+		assert.strictEqual(await session.login(), null)
+		assert.strictEqual(session.loggedIn, true)
+		
+		await session.logout()
+	})
+	
+	test('login with wrong credentials', async () => {
+		const session = new Session(server.provider, 'test', 'wrong')
+		
+		const exception = await session.login()
+		
+		assert.strictEqual(exception?.type, 'SchulNetzException')
+		assert.strictEqual(exception.loginError, LoginError.WRONG_CREDENTIALS)
+		assert.strictEqual(session.loggedIn, false)
+	})
+	
+	test('login with a locked account', async () => {
+		const session = new Session(server.provider, 'locked', 'test')
+		
+		assert.strictEqual((await session.login())?.loginError, LoginError.ACCOUNT_LOCKED)
+	})
+	
+	test('fetchPage rotates the transid', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		await session.login()
+		
+		try {
+			const transIds = [ session.exportState().transId ]
+			
+			for(const page of [ Page.GRADES, Page.ABSENCES, Page.TRANSACTIONS ]) {
+				const html = await session.fetchPage(page)
+				const { transId } = session.exportState()
+				
+				assert.ok(html.includes(`transid=${transId}`))
+				assert.ok(!transIds.includes(transId))
+				
+				transIds.push(transId)
+			}
+			
+			// Pages which do not change the state keep the transid
+			assert.match(await session.fetchPage(Page.TEACHERS, false), /^"Nachname";/)
+			assert.strictEqual(session.exportState().transId, transIds[transIds.length - 1])
+		} finally{
+			await session.logout()
+		}
+	})
+	
+	test('keepAlive resets the timeout', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		await session.login()
+		
+		try {
+			const { lastActivity } = session.exportState()
+			
+			// A recent activity does not need a request
+			assert.strictEqual(await session.keepAlive(), true)
+			assert.strictEqual(session.exportState().lastActivity, lastActivity)
+			
+			await new Promise(resolve => setTimeout(resolve, 5))
+			
+			assert.strictEqual(await session.keepAlive(0), true)
+			assert.ok(session.exportState().lastActivity > lastActivity)
+			assert.strictEqual(session.loggedIn, true)
+		} finally{
+			await session.logout()
+		}
+	})
+	
+	test('fetchSchedule', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		await session.login()
+		
+		try {
+			const week = await session.fetchSchedule(MONDAY, MONDAY + 7 * DAY - 1)
+			
+			assert.deepStrictEqual(Array.from(week, lesson => [ lesson.subjectAbbreviation, new Date(lesson.startDate).getDay() ]), [
+				[ 'M-3a-MuH', 1 ],
+				[ 'D-3a-BeA', 1 ],
+				[ 'E-3a-KeP', 2 ],
+				[ 'M-3a-MuH', 3 ],
+				[ 'D-3a-BeA', 4 ],
+				[ 'E-3a-KeP', 5 ],
+			])
+			
+			// Ranges are fetched in chunks, lessons at the borders are neither lost nor duplicated
+			const twoWeeks = await session.fetchSchedule(MONDAY + 3 * DAY, MONDAY + 17 * DAY - 1)
+			
+			assert.strictEqual(twoWeeks.length, 12)
+			assert.strictEqual(new Set(twoWeeks.map(lesson => lesson.id)).size, 12)
+			assert.ok(twoWeeks.every((lesson, i) => i == 0 || twoWeeks[i - 1].startDate <= lesson.startDate))
+		} finally{
+			await session.logout()
+		}
+	})
+	
+	test('confirmAllGrades', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		await session.login()
+		
+		try {
+			const abbreviations = subjects => Array.from(subjects ?? [], subject => subject.abbreviation)
+			
+			assert.deepStrictEqual(abbreviations((await session.confirmAllGrades(true)).pending), [ 'M-3a-MuH' ])
+			
+			// Subjects which were already confirmed are not reported again
+			const result = await session.confirmAllGrades()
+			
+			assert.deepStrictEqual(abbreviations(result.confirmed), [ 'M-3a-MuH' ])
+			assert.deepStrictEqual(abbreviations(result.pending), [])
+			assert.deepStrictEqual(abbreviations((await session.confirmAllGrades()).confirmed), [])
+		} finally{
+			await session.logout()
+		}
+	})
+	
+	test('resume', async () => {
+		// The exported session is taken over, so it must not start its own timer
+		const exported = new Session(server.provider, 'test', 'test')
+		exported.sharedKeepAlive = true
+		await exported.login()
+		
+		const state = exported.exportState()
+		const session = new Session(server.provider, 'test', 'test')
+		
+		try {
+			assert.strictEqual(await session.resume(state), null)
+			assert.strictEqual(session.exportState().id, state.id)
+			assert.notStrictEqual(session.exportState().transId, state.transId)
+			assert.match(await session.fetchPage(Page.GRADES), /uebersicht_bloecke/)
+		} finally{
+			await session.logout()
+		}
+		
+		// The server session is logged out now, resuming it again logs in
+		const relogin = new Session(server.provider, 'test', 'test')
+		
+		try {
+			assert.strictEqual(await relogin.resume(state), null)
+			assert.notStrictEqual(relogin.exportState().id, state.id)
+		} finally{
+			await relogin.logout()
+		}
+	})
+	
+	test('logout', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		await session.login()
+		
+		const state = session.exportState()
+		await session.logout()
+		
+		assert.strictEqual(session.loggedIn, false)
+		await assert.rejects(session.fetchPage(Page.GRADES), { message: 'Not logged in' })
+		
+		// The server session is logged out as well, its ids only lead back to the login
+		const response = await vendor.request(`${server.provider}/index.php?pageid=${Page.GRADES}&id=${state.id}&transid=${state.transId}`, { headers: { 'Cookie': state.cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') }, ignoreStatusCode: true })
+		assert.strictEqual(response.status, 302)
+	})
+})
+
+describe('mock server with expiring sessions', () => {
+	let server
+	
+	before(async () => server = await startMockServer({ MOCK_SESSION_TIMEOUT: '200' }))
+	after(() => server.stop())
+	
+	test('keepAlive logs out expired sessions', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		await session.login()
+		
+		await new Promise(resolve => setTimeout(resolve, 400))
+		
+		assert.strictEqual(await session.keepAlive(0), false)
+		assert.strictEqual(session.loggedIn, false)
+	})
+})
+
+describe('mock server with a failing page', () => {
+	let server
+	
+	before(async () => server = await startMockServer({ MOCK_FAILING_PAGES: `${Page.TEACHERS}` }))
+	after(() => server.stop())
+	
+	test('sync keeps the other sections', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		session.retryOptions = { ...session.retryOptions, retries: 0 }
+		
+		try {
+			const result = await session.sync()
+			
+			assert.strictEqual(result.sections[SyncSection.TEACHERS], SyncStatus.Missing)
+			
+			for(const section of [ SyncSection.STUDENTS, SyncSection.TRANSACTIONS, SyncSection.ABSENCES, SyncSection.GRADES, SyncSection.SCHEDULE ]) {
+				assert.strictEqual(result.sections[section], SyncStatus.Fresh, `${SyncSection[section]} is not fresh`)
+			}
+			
+			assert.deepStrictEqual(Array.from(result.exceptions, exception => [ exception.type, exception.status ]), [ [ 'NetworkException', 500 ] ])
+			assert.deepStrictEqual(Array.from(result.sectionExceptions[SyncSection.TEACHERS], exception => exception.status), [ 500 ])
+			assert.deepStrictEqual(Array.from(result.sectionExceptions[SyncSection.STUDENTS]), [])
+			assert.strictEqual(result.students.length, 2)
+		} finally{
+			await session.logout()
+		}
+	})
+})
+
+describe('mock server in maintenance', () => {
+	let server
+	
+	before(async () => server = await startMockServer({ MOCK_MAINTENANCE: '1' }))
+	after(() => server.stop())
+	
+	test('login reports the maintenance', async () => {
+		const session = new Session(server.provider, 'test', 'test')
+		
+		const exception = await session.login()
+		
+		assert.strictEqual(exception?.loginError, LoginError.MAINTENANCE)
+		assert.strictEqual(exception.localizedMessage('en'), 'schulNetz is currently under maintenance.')
+	})
+})
@@ -0,0 +1,33 @@
+import assert from 'assert'
+import fs from 'fs'
+import path from 'path'
+import { describe, test } from 'node:test'
+import * as vendor from '../build/vendor/nodejs.js'
+import { fixturePath, loadLibrary } from './library.js'
+
+// Every fixture in tests/fixtures/parser/<parser>/ is parsed and compared with the JSON file of the same name,
+// UPDATE_GOLDEN=1 npm test rewrites the JSON files from the current results (review the diff before committing them)
+
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1'
+
+// Failed assertions are part of the expected results and would only clutter the output
+const { Parser } = loadLibrary({ ...vendor, info: () => {}, warn: () => {}, error: () => {}, fatal: () => {} }, [ 'Parser' ])
+
+// Class instances and exceptions are compared in their JSON form, undefined fields are dropped like in every other consumer
+const serialize = result => JSON.parse(JSON.stringify(result))
+
+for(const parser of fs.readdirSync(fixturePath('parser')).sort()) {
+	describe(parser, () => {
+		for(const file of fs.readdirSync(fixturePath('parser', parser)).filter(file => !file.endsWith('.json')).sort()) {
+			const expectedPath = fixturePath('parser', parser, `${path.parse(file).name}.json`)
+			
+			test(file, () => {
+				const actual = serialize(Parser[parser](fs.readFileSync(fixturePath('parser', parser, file), 'utf8')))
+				
+				if(UPDATE_GOLDEN) fs.writeFileSync(expectedPath, JSON.stringify(actual, null, '\t') + '\n')
+				
+				assert.deepStrictEqual(actual, JSON.parse(fs.readFileSync(expectedPath, 'utf8')))
+			})
+		}
+	})
+}
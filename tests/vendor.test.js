@@ -0,0 +1,167 @@
+import assert from 'assert'
+import { webcrypto } from 'crypto'
+import fs from 'fs'
+import { JSDOM } from 'jsdom'
+import { describe, test } from 'node:test'
+import * as browser from '../build/vendor/browser.js'
+import * as nodejs from '../build/vendor/nodejs.js'
+import { fixturePath, loadLibrary } from './library.js'
+
+// Both vendors have to behave the same, the browser vendor runs with the DOMParser of jsdom and the Web Crypto API of node.
+// request() is left out, fetch() in node does not follow the browser rules for redirects and cookies.
+
+globalThis.DOMParser ??= new JSDOM('').window.DOMParser
+globalThis.crypto ??= webcrypto
+
+const vendors = { nodejs, browser }
+
+// Runs the function with every vendor and expects the same result as with the nodejs vendor
+async function conforms(run) {
+	const expected = await run(nodejs)
+	
+	for(const [ name, vendor ] of Object.entries(vendors)) {
+		assert.deepStrictEqual(await run(vendor), expected, `${name} differs from nodejs`)
+	}
+	
+	return expected
+}
+
+describe('vendor conformance', () => {
+	test('parseDate', async () => {
+		const cases = [
+			[ '04.09.2023', 'dd.MM.yyyy' ],
+			[ '29.02.2024', 'dd.MM.yyyy' ],
+			[ '04.09.2023 08:05', 'dd.MM.yyyy HH:mm' ],
+			[ '2023-11-13 08:00', 'yyyy-MM-dd HH:mm' ],
+			[ '2023-11-13 08:50:30', 'yyyy-MM-dd HH:mm:ss' ],
+			// Daylight saving time changes
+			[ '26.03.2023 03:30', 'dd.MM.yyyy HH:mm' ],
+			[ '29.10.2023 02:30', 'dd.MM.yyyy HH:mm' ],
+			// Invalid dates
+			[ '31.02.2023', 'dd.MM.yyyy' ],
+			[ '29.02.2023', 'dd.MM.yyyy' ],
+			[ '4.9.2023', 'dd.MM.yyyy' ],
+			[ '04.09.2023 ', 'dd.MM.yyyy' ],
+			[ '04.09.23', 'dd.MM.yyyy' ],
+			[ '', 'dd.MM.yyyy' ],
+			[ 'Semester 1', 'dd.MM.yyyy' ],
+			[ '2023-11-13 08:00', 'yyyy-MM-dd HH:mm:ss' ],
+		]
+		
+		const results = await conforms(vendor => cases.map(([ str, format ]) => vendor.parseDate(str, format)))
+		
+		assert.strictEqual(results.filter(date => date != undefined).length, 7)
+	})
+	
+	test('formatDate', async () => {
+		const dates = [ Date.UTC(2023, 8, 4, 6, 5, 9), Date.UTC(2023, 2, 26, 1, 30), Date.UTC(2023, 9, 29, 0, 30), Date.UTC(2023, 11, 31, 23, 59, 59) ]
+		const formats = [ 'yyyy-MM-dd', 'dd.MM.yyyy HH:mm', 'yyyyMMdd', 'yyyyMMdd\'T\'HHmmss', 'yyyyMMdd\'T\'HHmmss\'Z\'' ]
+		
+		await conforms(vendor => dates.flatMap(date => formats.flatMap(format => [ undefined, 'UTC', 'Europe/Zurich' ].map(zone => vendor.formatDate(date, format, zone)))))
+	})
+	
+	test('hmacSHA256', async () => {
+		const signatures = await conforms(vendor => Promise.all([
+			vendor.hmacSHA256('secret', '{"event":"gradeAdded"}'),
+			vendor.hmacSHA256('', ''),
+			vendor.hmacSHA256('schlüssel', 'Prüfung in Französisch 🎉'),
+			vendor.hmacSHA256('k'.repeat(100), 'long key'),
+		]))
+		
+		// RFC 4231 test case 2
+		assert.strictEqual(await nodejs.hmacSHA256('Jefe', 'what do ya want for nothing?'), '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843')
+		assert.ok(signatures.every(signature => /^[0-9a-f]{64}$/.test(signature)))
+	})
+	
+	test('extractQueryParameters', async () => {
+		await conforms(vendor => [
+			vendor.extractQueryParameters('index.php?pageid=21311&id=4f2a&transid=1b2c3d', 'https://example.schul-netz.com/'),
+			vendor.extractQueryParameters('loginto.php?mode=1', 'https://example.schul-netz.com'),
+			vendor.extractQueryParameters('https://example.schul-netz.com/index.php?text=a%20b&empty='),
+		].map(params => ({ ...params })))
+	})
+	
+	test('cancelWait', async () => {
+		await conforms(async vendor => {
+			const cancelled = vendor.wait(60 * 1000)
+			const outcome = cancelled.then(() => 'resolved', () => 'rejected')
+			vendor.cancelWait(cancelled.waitKey)
+			
+			const finished = vendor.wait(0)
+			await finished
+			
+			// Keys of finished or cancelled waits are ignored
+			vendor.cancelWait(finished.waitKey)
+			vendor.cancelWait(cancelled.waitKey)
+			
+			return await outcome
+		})
+	})
+	
+	test('DOMObject', async () => {
+		const html = '<div id="content"><p class="first">Erste<br>Zeile <b>fett</b></p><a href="index.php?id=1">Link</a><p>Zweite</p></div>'
+		
+		await conforms(vendor => {
+			const dom = vendor.DOMObject.parse(html)
+			const paragraphs = dom.querySelector('#content > p')
+			
+			return {
+				paragraphs: paragraphs.map(paragraph => paragraph.innerText()),
+				className: paragraphs[0].getAttribute('class'),
+				missingAttribute: paragraphs[1].getAttribute('class'),
+				href: dom.querySelector('a')[0].getAttribute('href'),
+				missing: dom.querySelector('table').length,
+			}
+		})
+	})
+	
+	// The parsers only use the vendor, so their results on the golden files have to be the same as well
+	test('parsers', async () => {
+		const parsers = new Map(Object.values(vendors).map(vendor => [ vendor, loadLibrary({ ...vendor, info: () => {}, warn: () => {}, error: () => {}, fatal: () => {} }, [ 'Parser' ]).Parser ]))
+		
+		for(const parser of fs.readdirSync(fixturePath('parser'))) {
+			for(const file of fs.readdirSync(fixturePath('parser', parser)).filter(file => !file.endsWith('.json'))) {
+				const content = fs.readFileSync(fixturePath('parser', parser, file), 'utf8')
+				
+				await conforms(vendor => JSON.parse(JSON.stringify(parsers.get(vendor)[parser](content))))
+			}
+		}
+	})
+})
+
+describe('browser vendor redirects', () => {
+	// fetch() in node returns redirects as they are, browsers only report an opaque redirect without status, headers and body
+	const opaqueRedirect = { type: 'opaqueredirect', status: 0, headers: new globalThis.Headers(), text: async () => '', arrayBuffer: async () => new ArrayBuffer(0) }
+	
+	async function withFetch(fetch, run) {
+		const original = globalThis.fetch
+		globalThis.fetch = fetch
+		
+		try {
+			await run()
+		} finally{
+			globalThis.fetch = original
+		}
+	}
+	
+	test('request', async () => {
+		await withFetch(async () => opaqueRedirect, async () => {
+			assert.deepStrictEqual(await browser.request('https://example.schul-netz.com/index.php', { method: 'POST', ignoreStatusCode: true }), { content: '', status: 302, headers: {}, setCookies: [] })
+			await assert.rejects(browser.request('https://example.schul-netz.com/index.php'), { status: 302 })
+		})
+	})
+	
+	test('failed login', async () => {
+		const loginPage = '<form id="standardformular"><input type="hidden" name="loginhash" value="4f2a"></form>'
+		const { Session, logger } = loadLibrary(browser, [ 'Session', 'logger' ])
+		logger.sinks = []
+		
+		await withFetch(async (url, init) => init?.method === 'POST' ? opaqueRedirect : new globalThis.Response(loginPage), async () => {
+			const exception = await new Session('https://example.schul-netz.com', 'test', 'wrong').login()
+			
+			assert.strictEqual(exception?.type, 'SchulNetzException')
+			assert.strictEqual(exception.loginError, undefined)
+			assert.strictEqual(exception.localizedMessage('en'), 'The login failed.')
+		})
+	})
+})
@@ -0,0 +1,31 @@
+import assert from 'assert'
+import { test } from 'node:test'
+import * as vendor from '../build/vendor/nodejs.js'
+import { loadLibrary } from './library.js'
+
+const { WebhookDispatcher, ObjectType, logger } = loadLibrary(vendor, [ 'WebhookDispatcher', 'ObjectType', 'logger' ])
+
+test('a failing outbox in a scheduled flush is logged', async () => {
+	const entries = []
+	logger.sinks = [ entry => entries.push(entry) ]
+	
+	// The saves of the dispatch and of its first flush succeed, nothing listens on the discard port
+	let saves = 0
+	const dispatcher = new WebhookDispatcher([ { url: 'http://127.0.0.1:9/', secret: 'secret' } ], {
+		load: () => [],
+		save: async () => {
+			if(++saves > 2) throw new Error('outbox unavailable')
+		},
+	})
+	dispatcher.retryOptions = { ...dispatcher.retryOptions, baseDelay: 0, timeout: 1000 }
+	
+	try {
+		await dispatcher.dispatch({ [ObjectType.TEACHER]: { added: [ { id: '1', abbreviation: 'MuH' } ], modified: [], moved: [], removed: [] } })
+		
+		for(let i = 0; i < 100 && !entries.some(entry => entry.message.includes('outbox unavailable')); i++) await new Promise(resolve => setTimeout(resolve, 20))
+		
+		assert.ok(entries.some(entry => entry.func === 'WebhookDispatcher' && entry.message.startsWith('scheduled flush failed') && entry.message.includes('outbox unavailable')))
+	} finally{
+		dispatcher.stop()
+	}
+})
@@ -0,0 +1,212 @@
+import crypto from 'crypto'
+import express from 'express'
+import fs from 'fs'
+import path from 'path'
+import vm from 'vm'
+import * as vendor from '../build/vendor/nodejs.js'
+
+// Usage: tools/api_server.sh [dist name] or node tools/api_server.js [dist name] after building the dist and the vendor
+
+const __dirname = new URL('.', import.meta.url).pathname
+
+const DIST_NAME = process.argv[2] ?? 'test'
+const PORT = parseInt(process.env.API_PORT ?? '8082')
+const SYNC_MAX_AGE = parseInt(process.env.API_SYNC_MAX_AGE ?? `${60 * 1000}`)
+const LANGUAGE = process.env.API_LANGUAGE ?? 'de'
+// Every 7 days of the range are a request to the school server
+const SCHEDULE_MAX_DAYS = parseInt(process.env.API_SCHEDULE_MAX_DAYS ?? '92')
+const SESSION_IDLE_TIME = parseInt(process.env.API_SESSION_IDLE_TIME ?? `${30 * 60 * 1000}`)
+// Sessions are only created for these providers (comma-separated), the server would make requests to any other URL it is given
+const PROVIDERS = (process.env.API_PROVIDERS ?? 'http://localhost:8081').split(',').filter(provider => provider).map(provider => normalizeProvider(provider))
+
+const context = vm.createContext({ console, URL, ...vendor })
+vm.runInContext(fs.readFileSync(path.join(__dirname, `../dist/${DIST_NAME}.js`), 'utf8'), context)
+
+// Classes are lexically scoped and not properties of the context, so they are collected by a second script
+const { Session, SyncSection, SyncStatus } = vm.runInContext('({ Session, SyncSection, SyncStatus })', context)
+
+/**********\
+| Sessions |
+\**********/
+
+// Maps session tokens to { session, result, syncedAt, syncing, usedAt }
+const sessions = new Map()
+
+function normalizeProvider(provider) {
+	if(!provider.startsWith('http://') && !provider.startsWith('https://')) provider = 'https://' + provider
+	
+	return provider.replace(/\/+$/, '')
+}
+
+function sessionFromRequest(req) {
+	const [ scheme, token ] = (req.headers.authorization ?? '').split(' ')
+	
+	return scheme === 'Bearer' ? sessions.get(token) : undefined
+}
+
+// Every session keeps its schulNetz session alive, so sessions which are no longer used are logged out
+setInterval(() => {
+	for(const [ token, entry ] of sessions) {
+		if(entry.syncing || Date.now() - entry.usedAt < SESSION_IDLE_TIME) continue
+		
+		sessions.delete(token)
+		entry.session.logout().catch(() => {})
+	}
+}, Math.min(SESSION_IDLE_TIME, 60 * 1000))
+
+// A failed page or keep-alive logs the session out, sync() logs in again by itself but single requests have to do it here
+async function loggedInSession(entry) {
+	if(!entry.session.loggedIn) {
+		const exception = await entry.session.login()
+		if(exception) throw exception
+	}
+	
+	return entry.session
+}
+
+async function syncedResult(entry) {
+	if(entry.result && Date.now() - entry.syncedAt < SYNC_MAX_AGE) return entry.result
+	
+	// Concurrent requests share a single sync
+	entry.syncing ??= entry.session.sync(entry.result).then(result => {
+		entry.result = result
+		entry.syncedAt = Date.now()
+		return result
+	}).finally(() => entry.syncing = undefined)
+	
+	return await entry.syncing
+}
+
+/********\
+| Errors |
+\********/
+
+class ApiError extends Error {
+	constructor(status, func, message) {
+		super(message)
+		this.status = status
+		this.func = func
+	}
+}
+
+function errorStatus(exception) {
+	switch(exception.type) {
+		case 'SchulNetzException':
+			return 401
+		case 'NetworkException':
+			return 502
+		default:
+			return 500
+	}
+}
+
+function errorBody(exception) {
+	return { ...exception.toJSON(), localizedMessage: exception.localizedMessage?.(LANGUAGE) }
+}
+
+function sendError(res, exception) {
+	if(exception instanceof ApiError) res.status(exception.status).json({ error: { type: 'ApiError', func: exception.func, message: exception.message } })
+	else if(exception && typeof exception === 'object' && 'type' in exception) res.status(errorStatus(exception)).json({ error: errorBody(exception) })
+	else res.status(500).json({ error: { type: 'JavaScriptException', func: 'api', message: `${exception}` } })
+}
+
+// Wraps async handlers so that thrown exceptions end up as structured error bodies
+const handle = (func, handler) => async (req, res) => {
+	try {
+		await handler(req, res)
+	} catch(exception) {
+		sendError(res, exception)
+	}
+}
+
+const authenticated = (func, handler) => handle(func, async (req, res) => {
+	const entry = sessionFromRequest(req)
+	if(!entry) throw new ApiError(401, func, 'Unknown or missing session token')
+	
+	entry.usedAt = Date.now()
+	
+	await handler(req, res, entry)
+})
+
+/********\
+| Routes |
+\********/
+
+const app = express()
+
+app.use(express.json())
+
+app.post('/sessions', handle('createSession', async (req, res) => {
+	const { provider, username, password } = req.body ?? {}
+	
+	if(typeof provider !== 'string' || typeof username !== 'string' || typeof password !== 'string') throw new ApiError(400, 'createSession', 'provider, username and password are required')
+	
+	if(!PROVIDERS.includes(normalizeProvider(provider))) throw new ApiError(403, 'createSession', `provider ${provider} is not allowed`)
+	
+	const session = new Session(provider, username, password)
+	
+	const exception = await session.login()
+	if(exception) throw exception
+	
+	const token = crypto.randomBytes(24).toString('hex')
+	sessions.set(token, { session, result: undefined, syncedAt: 0, syncing: undefined, usedAt: Date.now() })
+	
+	res.status(201).json({ token })
+}))
+
+app.delete('/sessions/:token', handle('deleteSession', async (req, res) => {
+	const entry = sessions.get(req.params.token)
+	if(!entry) throw new ApiError(404, 'deleteSession', 'Unknown session token')
+	
+	sessions.delete(req.params.token)
+	await entry.session.logout()
+	
+	res.status(204).send()
+}))
+
+// Routes returning parts of the linked sync result
+const SyncRoutes = {
+	'/grades': [ 'GRADES', result => result.grades ],
+	'/subjects': [ 'GRADES', result => result.subjects ],
+	'/absences': [ 'ABSENCES', result => ({ absences: result.absences, absenceReports: result.absenceReports, openAbsences: result.openAbsences, lateAbsences: result.lateAbsences }) ],
+	'/transactions': [ 'TRANSACTIONS', result => result.transactions ],
+	'/teachers': [ 'TEACHERS', result => result.teachers ],
+	'/students': [ 'STUDENTS', result => result.students ],
+}
+
+for(const [ route, [ section, select ] ] of Object.entries(SyncRoutes)) {
+	app.get(route, authenticated(route, async (req, res, entry) => {
+		const result = await syncedResult(entry)
+		
+		if(result.sections[SyncSection[section]] == SyncStatus.Missing) {
+			const exceptions = result.sectionExceptions[SyncSection[section]] ?? []
+			throw exceptions[exceptions.length - 1] ?? new ApiError(502, route, `${section} could not be synced`)
+		}
+		
+		res.json(select(result))
+	}))
+}
+
+function parseDateParameter(value, func, name) {
+	const date = typeof value === 'string' ? (/^\d+$/.test(value) ? parseInt(value) : new Date(`${value}T00:00:00`).getTime()) : NaN
+	if(isNaN(date)) throw new ApiError(400, func, `${name} has to be a date (yyyy-MM-dd) or a timestamp`)
+	
+	return date
+}
+
+app.get('/schedule', authenticated('/schedule', async (req, res, entry) => {
+	const from = parseDateParameter(req.query.from, '/schedule', 'from')
+	let to = parseDateParameter(req.query.to, '/schedule', 'to')
+	
+	// Dates without a time include the whole last day
+	if(!/^\d+$/.test(req.query.to)) to += 24 * 60 * 60 * 1000 - 1
+	
+	if(to < from) throw new ApiError(400, '/schedule', 'to has to be after from')
+	if(to - from >= SCHEDULE_MAX_DAYS * 24 * 60 * 60 * 1000) throw new ApiError(400, '/schedule', `the range can be at most ${SCHEDULE_MAX_DAYS} days`)
+	
+	res.json(await (await loggedInSession(entry)).fetchSchedule(from, to))
+}))
+
+app.use((req, res) => sendError(res, new ApiError(404, 'api', `Unknown route ${req.method} ${req.path}`)))
+
+app.listen(PORT, () => console.info(`[INFO] SchulNetz API server listening on http://localhost:${PORT}`))
@@ -0,0 +1,15 @@
+#!/bin/bash
+
+cd "${0%/*}/.."
+
+if [ -z ${1+x} ]; then
+	DIST_NAME=test
+else
+	DIST_NAME=$1
+fi
+
+tools/build_dist.sh "$DIST_NAME"
+
+npx tsc --target ES2020 --module ESNext --moduleResolution node --lib ES2020,ES2021 --strict --skipLibCheck --outDir build/vendor src/vendor/nodejs.ts
+
+node "tools/api_server.js" "$DIST_NAME"
\ No newline at end of file
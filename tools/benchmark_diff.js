@@ -0,0 +1,38 @@
+import fs from 'fs'
+import path from 'path'
+import vm from 'vm'
+
+// Usage: tools/build_dist.sh bench && node tools/benchmark_diff.js [dist name] [object count]
+
+const __dirname = new URL('.', import.meta.url).pathname
+
+const DIST_NAME = process.argv[2] ?? 'test'
+const COUNT = parseInt(process.argv[3] ?? '50000')
+
+const context = vm.createContext({ console })
+vm.runInContext(fs.readFileSync(path.join(__dirname, `../dist/${DIST_NAME}.js`), 'utf8'), context)
+
+const { diff, ObjectType } = context
+
+function measure(name, run) {
+	const start = process.hrtime.bigint()
+	const result = run()
+	const millis = Number(process.hrtime.bigint() - start) / 1e6
+	
+	console.info(`${name}: ${millis.toFixed(1)} ms (added ${result.added.length}, modified ${result.modified.length}, unchanged ${result.unchanged.length}, removed ${result.removed.length})`)
+}
+
+const transactions = Array.from({ length: COUNT }, (_, i) => ({ $type: ObjectType.TRANSACTION, id: `${i}`, date: 1_600_000_000_000 + i * 60_000, reason: `Transaction ${i % 97}`, amount: i % 13 }))
+const updatedTransactions = transactions
+	.filter((_, i) => i % 50 != 0)
+	.map((transaction, i) => i % 20 == 0 ? { ...transaction, amount: transaction.amount + 1 } : { ...transaction })
+	.concat(Array.from({ length: COUNT / 100 }, (_, i) => ({ $type: ObjectType.TRANSACTION, id: `new${i}`, date: i, reason: 'New', amount: 1 })))
+	.reverse()
+
+measure(`diff(${COUNT} transactions)`, () => diff(transactions, updatedTransactions))
+
+const subjects = Array.from({ length: 20 }, (_, i) => ({ id: `s${i}`, abbreviation: `S${i}-3a-XY`, average: 5, gradesConfirmed: true, hiddenGrades: false }))
+const grades = Array.from({ length: COUNT }, (_, i) => ({ id: `g${i}`, subjectId: `s${i % 20}`, date: 1_600_000_000_000 + i * 60_000, topic: `Test ${i}`, grade: 4 + i % 3, weight: 1 }))
+const updatedGrades = grades.map((grade, i) => i % 25 == 0 ? { ...grade, topic: `${grade.topic} (korrigiert)` } : { ...grade })
+
+measure(`diff(snapshot with ${COUNT} grades)`, () => diff({ subjects, grades }, { subjects, grades: updatedGrades })[ObjectType.GRADE])
@@ -12,6 +12,6 @@ fi
 
 [ ! -d "dist" ] && mkdir "dist"
 
-sed '1,3d; /export {};/d' "build/index.js" | node "tools/terser.mjs" > "dist/$DIST_NAME.js"
+sed '1,/^})();$/d; /export {};/d' "build/index.js" | node "tools/terser.mjs" > "dist/$DIST_NAME.js"
 
 # TODO: zlib-flate -compress=9 < "dist/$DIST_NAME.js" > "dist/$DIST_NAME.zlib"
\ No newline at end of file
@@ -0,0 +1,342 @@
+import crypto from 'crypto'
+import express from 'express'
+import fs from 'fs'
+import path from 'path'
+
+const __dirname = new URL('.', import.meta.url).pathname
+const fixture = name => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8')
+
+const PORT = parseInt(process.env.MOCK_PORT ?? '8081')
+const USERNAME = process.env.MOCK_USERNAME ?? 'test'
+const PASSWORD = process.env.MOCK_PASSWORD ?? 'test'
+const SESSION_TIMEOUT = parseInt(process.env.MOCK_SESSION_TIMEOUT ?? `${30 * 60 * 1000}`)
+
+// Codes of the mode parameter sent along with the redirect after a failed login
+const LoginMode = {
+	WRONG_CREDENTIALS: 1,
+	INVALID_LOGINHASH: 2,
+	ACCOUNT_LOCKED: 3,
+	MAINTENANCE: 4,
+}
+
+const LOCKED_USERNAME = 'locked'
+const MAINTENANCE = process.env.MOCK_MAINTENANCE === '1'
+
+// Page ids (comma separated) which always answer with HTTP 500
+const FAILING_PAGES = (process.env.MOCK_FAILING_PAGES ?? '').split(',').filter(pageId => pageId).map(pageId => parseInt(pageId))
+
+const HtmlPages = {
+	21111: { file: 'absences.html', container: 'uebersicht_bloecke' },
+	21311: { file: 'grades.html', container: 'uebersicht_bloecke' },
+	21411: { file: 'transactions.html', container: 'content-card' },
+	1012: { file: 'documents.html', container: 'content-card' },
+	22202: { file: undefined, container: 'content-card' },
+	1: { file: undefined, container: 'content-card' },
+}
+
+const CsvPages = {
+	22352: 'teachers.csv',
+	22348: 'students.csv',
+}
+
+const LOGOUT_PAGE = 9999
+const ABSENCES_PAGE = 21111
+const GRADES_PAGE = 21311
+
+const Documents = {
+	4711: { filename: 'Zeugnis 2. Semester.pdf', type: 'application/pdf' },
+	4712: { filename: 'Schulbestätigung 2026-27.pdf', type: 'application/pdf' },
+}
+
+const WeeklyLessons = [
+	// [ weekday (1 = Monday), start, end, text, course, subject, room, color ]
+	[ 1, '08:00', '08:45', 'Mathematik', 'M-3a-MuH', 'M', 'A12', '#3f51b5' ],
+	[ 1, '08:50', '09:35', 'Deutsch', 'D-3a-BeA', 'D', 'B04', '#e91e63' ],
+	[ 2, '10:00', '10:45', 'Englisch', 'E-3a-KeP', 'E', 'C21', '#009688' ],
+	[ 3, '13:00', '13:45', 'Mathematik', 'M-3a-MuH', 'M', 'A12', '#3f51b5' ],
+	[ 4, '08:00', '08:45', 'Deutsch', 'D-3a-BeA', 'D', 'B04', '#e91e63' ],
+	[ 5, '14:00', '14:45', 'Englisch', 'E-3a-KeP', 'E', 'C21', '#009688' ],
+]
+
+/**********\
+| Sessions |
+\**********/
+
+const sessions = new Map()
+
+const randomHex = length => crypto.randomBytes(Math.ceil(length / 2)).toString('hex').substring(0, length)
+
+function parseCookies(req) {
+	return Object.fromEntries((req.headers.cookie ?? '').split(';').map(pair => pair.trim().split('=')).filter(([ key ]) => key))
+}
+
+function currentSession(req, res) {
+	let sessionId = parseCookies(req)['PHPSESSID']
+	let session = sessionId ? sessions.get(sessionId) : undefined
+	
+	if(session && session.loggedIn && Date.now() - session.lastActivity > SESSION_TIMEOUT) {
+		sessions.delete(sessionId)
+		session = undefined
+	}
+	
+	if(!session) {
+		sessionId = randomHex(26)
+		session = { loggedIn: false, lastActivity: Date.now() }
+		sessions.set(sessionId, session)
+	}
+	
+	session.lastActivity = Date.now()
+	res.setHeader('Set-Cookie', [ `PHPSESSID=${sessionId}; path=/`, `layout-size=md; expires=${new Date(Date.now() + 24 * 60 * 60 * 1000).toUTCString()}; path=/` ])
+	
+	return session
+}
+
+function authorized(req, session) {
+	return session.loggedIn && req.query.id === session.id && req.query.transid === session.transId
+}
+
+/*******\
+| Pages |
+\*******/
+
+function renderPage(session, pageId, content, container) {
+	return `<!DOCTYPE html>
+<html>
+	<head><title>schulNetz</title></head>
+	<body>
+		<div id="header-menu">
+			<ul for="sn-main-menu">
+				<li><a href="index.php?pageid=1&id=${session.id}&transid=${session.transId}">Start</a></li>
+				<li><a href="index.php?pageid=${LOGOUT_PAGE}&id=${session.id}&transid=${session.transId}">Abmelden</a></li>
+			</ul>
+		</div>
+		<div id="${container}" data-pageid="${pageId}">${container === 'uebersicht_bloecke' ? `<page>${content}</page>` : content}</div>
+	</body>
+</html>`
+}
+
+// Removes the rows of open absences which have been excused in this session
+function removeExcusedAbsences(session, content) {
+	return content.replace(/<tr>(?:(?!<\/tr>).)*name="absenz\[\]" value="(\d+)"(?:(?!<\/tr>).)*<\/tr>\n?/g, (row, value) => session.excusedAbsences?.has(value) ? '' : row)
+}
+
+// Removes the confirmation links of subjects whose grades have been confirmed in this session
+function removeConfirmationLinks(session, content) {
+	return content.replace(/<a href="[^"]*action=nvw_bestaetigen[^"]*listindex=(\d+)">[^<]*<\/a>/g, (link, listIndex) => session.confirmedSubjects?.has(listIndex) ? '' : link)
+}
+
+function fillPlaceholders(session, content) {
+	return content.replace(/\{\{id\}\}/g, session.id).replace(/\{\{transid\}\}/g, session.transId)
+}
+
+function renderLoginPage(session) {
+	session.loginHash = randomHex(32)
+	
+	return `<!DOCTYPE html>
+<html>
+	<body>
+		<form id="standardformular" action="index.php" method="post">
+			<input type="text" name="login">
+			<input type="password" name="passwort">
+			<input type="hidden" name="loginhash" value="${session.loginHash}">
+		</form>
+	</body>
+</html>`
+}
+
+function renderSchedule(from, to) {
+	const events = []
+	const pad = number => `${number}`.padStart(2, '0')
+	
+	for(const day = new Date(from); day <= to; day.setDate(day.getDate() + 1)) {
+		const date = `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`
+		
+		for(const [ weekday, start, end, text, course, subject, room, color ] of WeeklyLessons) {
+			if(day.getDay() != weekday) continue
+			
+			events.push(`	<event id="${date}-${course}-${start}">
+		<start_date>${date} ${start}</start_date>
+		<end_date>${date} ${end}</end_date>
+		<text>${text}</text>
+		<kommentar></kommentar>
+		<fachkuerzel>${subject}</fachkuerzel>
+		<kurskuerzel>${course}</kurskuerzel>
+		<zimmerkuerzel>${room}</zimmerkuerzel>
+		<color>${color}</color>
+	</event>`)
+		}
+	}
+	
+	return `<?xml version="1.0" encoding="UTF-8"?>\n<data>\n${events.join('\n')}\n</data>`
+}
+
+function renderDocument(document) {
+	const content = `%PDF-1.4\n% ${document.filename}\n`
+	
+	// Includes bytes which are not valid UTF-8 to make sure the content is handled as binary
+	return Buffer.concat([ Buffer.from(content, 'utf8'), Buffer.from([ 0xe2, 0xe3, 0xcf, 0xd3, 0x0a ]), Buffer.from('%%EOF\n', 'utf8') ])
+}
+
+/********\
+| Routes |
+\********/
+
+const app = express()
+
+app.use(express.text({ type: '*/*' }))
+
+app.get('/loginto.php', (req, res) => {
+	const session = currentSession(req, res)
+	
+	res.send(renderLoginPage(session))
+})
+
+app.post('/index.php', (req, res) => {
+	const session = currentSession(req, res)
+	const body = new URLSearchParams(typeof req.body === 'string' ? req.body : '')
+	
+	if(req.query.pageid != undefined) {
+		handleFormSubmission(req, res, session, body)
+		return
+	}
+	
+	let mode
+	if(MAINTENANCE) mode = LoginMode.MAINTENANCE
+	else if(!session.loginHash || body.get('loginhash') !== session.loginHash) mode = LoginMode.INVALID_LOGINHASH
+	else if(body.get('login') === LOCKED_USERNAME) mode = LoginMode.ACCOUNT_LOCKED
+	else if(body.get('login') !== USERNAME || body.get('passwort') !== PASSWORD) mode = LoginMode.WRONG_CREDENTIALS
+	
+	session.loginHash = undefined
+	
+	if(mode != undefined) {
+		// Like PHP's header('Location: …'), the redirect has no body
+		res.status(302).location(`loginto.php?mode=${mode}`).end()
+		return
+	}
+	
+	session.loggedIn = true
+	session.id = randomHex(16)
+	session.transId = randomHex(6)
+	
+	res.send(renderPage(session, 1, '<h1>Willkommen</h1>', 'content-card'))
+})
+
+function handleFormSubmission(req, res, session, body) {
+	const pageId = parseInt(req.query.pageid)
+	
+	if(!authorized(req, session)) {
+		res.redirect(302, 'loginto.php')
+		return
+	}
+	
+	if(pageId != ABSENCES_PAGE || body.get('action') !== 'entschuldigen' || !body.get('grund') || body.getAll('absenz[]').length == 0) {
+		res.status(400).send('')
+		return
+	}
+	
+	session.excusedAbsences ??= new Set()
+	body.getAll('absenz[]').forEach(value => session.excusedAbsences.add(value))
+	session.transId = randomHex(6)
+	
+	res.send(renderPage(session, pageId, removeExcusedAbsences(session, fillPlaceholders(session, fixture(HtmlPages[pageId].file))), HtmlPages[pageId].container))
+}
+
+app.get('/index.php', (req, res) => {
+	const session = currentSession(req, res)
+	const pageId = parseInt(req.query.pageid)
+	
+	if(!authorized(req, session)) {
+		res.redirect(302, 'loginto.php')
+		return
+	}
+	
+	if(pageId == LOGOUT_PAGE) {
+		session.loggedIn = false
+		session.id = undefined
+		session.transId = undefined
+		
+		res.redirect(302, 'loginto.php')
+		return
+	}
+	
+	if(FAILING_PAGES.includes(pageId)) {
+		res.status(500).send('')
+		return
+	}
+	
+	if(pageId == 1012 && req.query.action === 'download') {
+		const document = Documents[req.query.docid]
+		
+		if(!document) {
+			res.status(404).send('')
+			return
+		}
+		
+		res.type(document.type)
+		res.setHeader('Content-Disposition', `attachment; filename="${document.filename.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(document.filename)}`)
+		res.send(renderDocument(document))
+		return
+	}
+	
+	if(pageId == GRADES_PAGE && req.query.action === 'nvw_bestaetigen') {
+		if(!fixture(HtmlPages[pageId].file).includes(`listindex=${req.query.listindex}"`)) {
+			res.status(400).send('')
+			return
+		}
+		
+		session.confirmedSubjects ??= new Set()
+		session.confirmedSubjects.add(req.query.listindex)
+	}
+	
+	if(pageId in CsvPages) {
+		res.type('text/csv').send(fixture(CsvPages[pageId]))
+		return
+	}
+	
+	if(pageId in HtmlPages) {
+		session.transId = randomHex(6)
+		
+		const { file, container } = HtmlPages[pageId]
+		let content = file ? fillPlaceholders(session, fixture(file)) : ''
+		if(pageId == ABSENCES_PAGE) content = removeExcusedAbsences(session, content)
+		if(pageId == GRADES_PAGE) content = removeConfirmationLinks(session, content)
+		
+		res.send(renderPage(session, pageId, content, container))
+		return
+	}
+	
+	res.status(404).send('')
+})
+
+app.post('/xajax_js.php', (req, res) => {
+	const session = currentSession(req, res)
+	
+	if(!authorized(req, session) || req.body !== 'xajax=reset_timeout') {
+		res.status(403).send('')
+		return
+	}
+	
+	res.type('text/xml').send('<?xml version="1.0" encoding="utf-8" ?><xjx></xjx>')
+})
+
+app.get('/scheduler_processor.php', (req, res) => {
+	const session = currentSession(req, res)
+	
+	if(!authorized(req, session)) {
+		res.redirect(302, 'loginto.php')
+		return
+	}
+	
+	const from = new Date(`${req.query.min_date}T00:00:00`)
+	const to = new Date(`${req.query.max_date}T00:00:00`)
+	
+	if(isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+		res.status(400).send('')
+		return
+	}
+	
+	res.type('text/xml').send(renderSchedule(from, to))
+})
+
+// MOCK_PORT=0 listens on a free port, the tests read the chosen one from this line
+const server = app.listen(PORT, () => console.info(`[INFO] Mock SchulNetz server listening on http://localhost:${server.address().port} (login: ${USERNAME}/${PASSWORD})`))
@@ -0,0 +1,5 @@
+#!/bin/bash
+
+cd "${0%/*}/.."
+
+node "tools/mock_server.js"
\ No newline at end of file
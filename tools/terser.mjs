@@ -21,7 +21,7 @@ const config = {
 		unsafe_proto: true,
 		unsafe_regexp: true,
 		unsafe_undefined: true,
-		top_retain: ['Session', 'Parser', 'diff', 'link', 'ObjectType', 'Page'],
+		top_retain: ['Session', 'Parser', 'diff', 'link', 'ObjectType', 'Page', 'SyncSection', 'SyncStatus', 'exportCalendar', 'ChangeEmitter', 'Analytics', 'RequiredGradeStatus', 'PromotionRules', 'PromotionRuleSets', 'SessionManager', 'WebhookDispatcher', 'logger', 'LogSinks', 'Exception', 'LoginError'],
 	},
 	// TODO
 	mangle: false,
@@ -31,7 +31,7 @@ const config = {
 		properties: {
 			reserved: [
 				'type', 'func', 'message', 'level', 'url', 'errorCode', // Exceptions
-				'TEACHER', 'STUDENT', 'TRANSACTION', 'ABSENCE', 'ABSENCE_REPORT', 'OPEN_ABSENCE', 'LATE_ABSENCE', 'SUBJECT', 'GRADE', // ObjectTypes
+				'TEACHER', 'STUDENT', 'TRANSACTION', 'ABSENCE', 'ABSENCE_REPORT', 'OPEN_ABSENCE', 'LATE_ABSENCE', 'SUBJECT', 'GRADE', 'LESSON', // ObjectTypes
 			]
 		}
 	},*/
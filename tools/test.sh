@@ -0,0 +1,10 @@
+#!/bin/bash
+
+cd "${0%/*}/.."
+
+npx tsc --skipLibCheck
+
+npx tsc --target ES2020 --module ESNext --moduleResolution node --lib ES2020,ES2021,DOM --strict --skipLibCheck --outDir build/vendor src/vendor/nodejs.ts src/vendor/browser.ts
+
+# Parsed dates are local times, the expected results are in the timezone of the schools
+TZ=Europe/Zurich node --test tests/
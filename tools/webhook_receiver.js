@@ -0,0 +1,43 @@
+import crypto from 'crypto'
+import express from 'express'
+
+// Local receiver to test WebhookDispatcher deliveries, WEBHOOK_FAILURES makes the first deliveries fail to test retries
+
+const PORT = parseInt(process.env.WEBHOOK_PORT ?? '8083')
+const SECRET = process.env.WEBHOOK_SECRET ?? 'secret'
+let failures = parseInt(process.env.WEBHOOK_FAILURES ?? '0')
+
+const received = []
+
+const app = express()
+
+app.use(express.text({ type: '*/*' }))
+
+app.post('/', (req, res) => {
+	const signature = `sha256=${crypto.createHmac('sha256', SECRET).update(req.body, 'utf8').digest('hex')}`
+	const expected = Buffer.from(signature)
+	const actual = Buffer.from(req.headers['x-schulnetz-signature'] ?? '')
+	
+	if(actual.length != expected.length || !crypto.timingSafeEqual(actual, expected)) {
+		console.warn(`[WARN] Rejected delivery ${req.headers['x-schulnetz-delivery']} with invalid signature`)
+		res.status(401).send('')
+		return
+	}
+	
+	if(failures > 0) {
+		failures--
+		console.info(`[INFO] Failing delivery ${req.headers['x-schulnetz-delivery']} on purpose`)
+		res.status(503).send('')
+		return
+	}
+	
+	const payload = JSON.parse(req.body)
+	received.push(payload)
+	
+	console.info(`[INFO] Delivery ${req.headers['x-schulnetz-delivery']}: ${payload.type} (added ${payload.added.length}, modified ${payload.modified.length}, removed ${payload.removed.length})`)
+	res.status(204).send()
+})
+
+app.get('/', (req, res) => res.json(received))
+
+app.listen(PORT, () => console.info(`[INFO] Webhook receiver listening on http://localhost:${PORT} (secret: ${SECRET})`))